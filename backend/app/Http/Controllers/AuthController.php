@@ -12,6 +12,7 @@
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\RateLimiter;
 use Illuminate\Validation\ValidationException;
+use Laravel\Sanctum\NewAccessToken;
 
 class AuthController extends Controller
 {
@@ -65,15 +66,45 @@ private function validateCredentials(string $email, string $password): User
      * Generate a new API token for the user.
      *
      * @param User $user
-     * @return string
+     * @return NewAccessToken
      */
-    private function generateApiToken(User $user): string
+    private function generateApiToken(User $user): NewAccessToken
     {
         // Revoke all existing tokens for security
         $user->tokens()->delete();
 
-        // Create new API token
-        return $user->createToken('auth-token')->plainTextToken;
+        return $this->createApiToken($user);
+    }
+
+    /**
+     * Create an API token that expires after the configured Sanctum expiration.
+     *
+     * @param User $user
+     * @return NewAccessToken
+     */
+    private function createApiToken(User $user): NewAccessToken
+    {
+        $expiration = config('sanctum.expiration');
+
+        return $user->createToken(
+            'auth-token',
+            ['*'],
+            $expiration ? now()->addMinutes((int) $expiration) : null
+        );
+    }
+
+    /**
+     * Transform a new API token for API response.
+     *
+     * @param NewAccessToken $token
+     * @return array
+     */
+    private function transformTokenData(NewAccessToken $token): array
+    {
+        return [
+            'token' => $token->plainTextToken,
+            'expires_at' => $token->accessToken->expires_at?->toISOString(),
+        ];
     }
 
     /**
@@ -85,7 +116,7 @@ private function generateApiToken(User $user): string
      */
     public function login(LoginRequest $request): JsonResponse
     {
-        $key = 'login_attempts:' . $request->ip();
+        $key = 'login_attempts:' . LoginRequest::throttleKey($request);
 
         try {
             $user = $this->validateCredentials($request->email, $request->password);
@@ -103,7 +134,7 @@ public function login(LoginRequest $request): JsonResponse
 
             return $this->successResponse([
                 'user' => $this->transformUserData($user),
-                'token' => $token,
+                ...$this->transformTokenData($token),
             ], 'Login successful');
 
         } catch (ValidationException $e) {
@@ -157,6 +188,74 @@ public function logout(Request $request): JsonResponse
         }
     }
 
+    /**
+     * Replace the current API token with a new one, extending the session.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function refresh(Request $request): JsonResponse
+    {
+        try {
+            $user = $request->user();
+
+            $request->user()->currentAccessToken()->delete();
+            $token = $this->createApiToken($user);
+
+            Log::info('User token refreshed', [
+                'user_id' => $user->id,
+                'ip' => $request->ip()
+            ]);
+
+            return $this->successResponse(
+                $this->transformTokenData($token),
+                'Token refreshed'
+            );
+
+        } catch (\Exception $e) {
+            Log::error('Token refresh error occurred', [
+                'user_id' => $request->user()?->id,
+                'error' => $e->getMessage(),
+                'ip' => $request->ip()
+            ]);
+            return $this->serverErrorResponse('An error occurred while refreshing the token');
+        }
+    }
+
+    /**
+     * Revoke every API token of the user, signing them out on all devices.
+     *
+     * @param Request $request
+     * @return JsonResponse
+     */
+    public function logoutAll(Request $request): JsonResponse
+    {
+        try {
+            $user = $request->user();
+
+            $revoked = $user->tokens()->delete();
+
+            Log::info('User logged out of all devices', [
+                'user_id' => $user->id,
+                'email' => $user->email,
+                'revoked_tokens' => $revoked,
+                'ip' => $request->ip()
+            ]);
+
+            return $this->successResponse([
+                'revoked' => $revoked,
+            ], 'Logged out of all devices');
+
+        } catch (\Exception $e) {
+            Log::error('Logout of all devices failed', [
+                'user_id' => $request->user()?->id,
+                'error' => $e->getMessage(),
+                'ip' => $request->ip()
+            ]);
+            return $this->serverErrorResponse('An error occurred during logout');
+        }
+    }
+
     /**
      * Get the authenticated user's information.
      *
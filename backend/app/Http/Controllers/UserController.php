@@ -5,6 +5,8 @@
 use App\Exceptions\EmailDeliveryException;
 use App\Exceptions\RolePermissionException;
 use App\Exceptions\UserManagementException;
+use App\Http\Requests\BatchDeleteUserRequest;
+use App\Http\Requests\BatchUpdateUserRoleRequest;
 use App\Http\Requests\IndexUserRequest;
 use App\Http\Requests\StoreUserRequest;
 use App\Http\Requests\UpdateUserRequest;
@@ -37,14 +39,18 @@ public function index(IndexUserRequest $request): JsonResponse
             $perPage = $request->get('per_page', 15);
             $search = $request->get('search');
             $roleFilter = $request->get('role');
+            $sortBy = $request->get('sort_by');
+            $sortOrder = $request->get('sort_order');
 
-            $users = $this->userService->getPaginatedUsers($perPage, $search, $roleFilter);
+            $users = $this->userService->getPaginatedUsers($perPage, $search, $roleFilter, $sortBy, $sortOrder);
 
             Log::info('Users retrieved successfully', [
                 'user_id' => $request->user()->id,
                 'per_page' => $perPage,
                 'search' => $search,
                 'role_filter' => $roleFilter,
+                'sort_by' => $sortBy,
+                'sort_order' => $sortOrder,
                 'total_users' => $users->total()
             ]);
 
@@ -120,6 +126,39 @@ public function store(StoreUserRequest $request): JsonResponse
         }
     }
 
+    /**
+     * Display the specified user, including soft deleted ones.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function show(Request $request, int $id): JsonResponse
+    {
+        try {
+            $user = $this->userService->findUserWithTrashed($id);
+
+            if (!$user) {
+                return $this->notFoundResponse('User not found');
+            }
+
+            return $this->successResponse(
+                new UserResource($user),
+                'User retrieved successfully'
+            );
+
+        } catch (\Exception $e) {
+            Log::error('Failed to retrieve user', [
+                'user_id' => $request->user()->id,
+                'requested_user_id' => $id,
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to retrieve user');
+        }
+    }
+
     /**
      * Update the specified user in storage.
      *
@@ -253,4 +292,258 @@ public function destroy(Request $request, int $id): JsonResponse
             return $this->serverErrorResponse('Failed to delete user. Please try again.');
         }
     }
+
+    /**
+     * Display a paginated listing of soft deleted users.
+     *
+     * Takes the same filters as the user list; unsorted results show the
+     * most recently deleted users first.
+     *
+     * @param IndexUserRequest $request
+     * @return JsonResponse
+     */
+    public function trash(IndexUserRequest $request): JsonResponse
+    {
+        try {
+            $perPage = $request->get('per_page', 15);
+            $search = $request->get('search');
+            $roleFilter = $request->get('role');
+            $sortBy = $request->get('sort_by');
+            $sortOrder = $request->get('sort_order');
+
+            $users = $this->userService->getPaginatedUsers(
+                $perPage, $search, $roleFilter, $sortBy, $sortOrder, onlyTrashed: true
+            );
+
+            Log::info('Deleted users retrieved successfully', [
+                'user_id' => $request->user()->id,
+                'per_page' => $perPage,
+                'search' => $search,
+                'role_filter' => $roleFilter,
+                'total_users' => $users->total()
+            ]);
+
+            return $this->successResponse(
+                new UserCollection($users),
+                'Deleted users retrieved successfully'
+            );
+
+        } catch (\Exception $e) {
+            Log::error('Failed to retrieve deleted users', [
+                'user_id' => $request->user()->id,
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to retrieve deleted users');
+        }
+    }
+
+    /**
+     * Restore a soft deleted user.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function restore(Request $request, int $id): JsonResponse
+    {
+        try {
+            $user = $this->userService->findUserWithTrashed($id);
+
+            if (!$user) {
+                return $this->notFoundResponse('User not found');
+            }
+
+            // Only deleted users can be restored
+            if (!$user->trashed()) {
+                return $this->notFoundResponse('User not found or has not been deleted');
+            }
+
+            $restoredUser = $this->userService->restoreUser($user, $request->user());
+
+            return $this->successResponse(
+                new UserResource($restoredUser),
+                'User restored successfully'
+            );
+
+        } catch (UserManagementException $e) {
+            Log::warning('User restore failed - business logic error', [
+                'error' => $e->getMessage(),
+                'restored_by' => $request->user()->id,
+                'user_id' => $id
+            ]);
+
+            throw $e; // Let the exception handler format the response
+
+        } catch (\Exception $e) {
+            Log::error('User restore failed - unexpected error', [
+                'error' => $e->getMessage(),
+                'restored_by' => $request->user()->id,
+                'user_id' => $id,
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to restore user. Please try again.');
+        }
+    }
+
+    /**
+     * Permanently delete a soft deleted user.
+     *
+     * @param Request $request
+     * @param int $id
+     * @return JsonResponse
+     */
+    public function purge(Request $request, int $id): JsonResponse
+    {
+        try {
+            $user = $this->userService->findUserWithTrashed($id);
+
+            if (!$user) {
+                return $this->notFoundResponse('User not found');
+            }
+
+            $this->userService->purgeUser($user, $request->user());
+
+            return $this->successResponse(
+                ['id' => $id],
+                'User permanently deleted'
+            );
+
+        } catch (UserManagementException $e) {
+            Log::warning('User purge failed - business logic error', [
+                'error' => $e->getMessage(),
+                'purged_by' => $request->user()->id,
+                'user_id' => $id
+            ]);
+
+            throw $e; // Let the exception handler format the response
+
+        } catch (\Exception $e) {
+            Log::error('User purge failed - unexpected error', [
+                'error' => $e->getMessage(),
+                'purged_by' => $request->user()->id,
+                'user_id' => $id,
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to permanently delete user. Please try again.');
+        }
+    }
+
+    /**
+     * Soft delete several users at once.
+     *
+     * Responds with 200 and a per-user result even when some users failed.
+     *
+     * @param BatchDeleteUserRequest $request
+     * @return JsonResponse
+     */
+    public function batchDestroy(BatchDeleteUserRequest $request): JsonResponse
+    {
+        try {
+            $results = $this->userService->batchDeleteUsers(
+                $request->selectedIds(),
+                $request->selectionFilter(),
+                $request->user()
+            );
+
+            $summary = $this->summarizeBatch($results);
+
+            Log::info('Batch user deletion completed', array_merge($summary, [
+                'deleted_by' => $request->user()->id,
+                'filter' => $request->selectionFilter(),
+            ]));
+
+            return $this->successResponse(
+                ['results' => $results, 'summary' => $summary],
+                "Deleted {$summary['succeeded']} of {$summary['total']} users"
+            );
+
+        } catch (UserManagementException $e) {
+            Log::warning('Batch user deletion failed - business logic error', [
+                'error' => $e->getMessage(),
+                'deleted_by' => $request->user()->id,
+            ]);
+
+            throw $e; // Let the exception handler format the response
+
+        } catch (\Exception $e) {
+            Log::error('Batch user deletion failed - unexpected error', [
+                'error' => $e->getMessage(),
+                'deleted_by' => $request->user()->id,
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to delete users. Please try again.');
+        }
+    }
+
+    /**
+     * Change the role of several users at once.
+     *
+     * Responds with 200 and a per-user result even when some users failed.
+     *
+     * @param BatchUpdateUserRoleRequest $request
+     * @return JsonResponse
+     */
+    public function batchUpdateRole(BatchUpdateUserRoleRequest $request): JsonResponse
+    {
+        try {
+            $results = $this->userService->batchUpdateRole(
+                $request->selectedIds(),
+                $request->selectionFilter(),
+                $request->validated('role'),
+                $request->user()
+            );
+
+            $summary = $this->summarizeBatch($results);
+
+            Log::info('Batch role change completed', array_merge($summary, [
+                'updated_by' => $request->user()->id,
+                'role' => $request->validated('role'),
+                'filter' => $request->selectionFilter(),
+            ]));
+
+            return $this->successResponse(
+                ['results' => $results, 'summary' => $summary],
+                "Updated {$summary['succeeded']} of {$summary['total']} users"
+            );
+
+        } catch (UserManagementException $e) {
+            Log::warning('Batch role change failed - business logic error', [
+                'error' => $e->getMessage(),
+                'updated_by' => $request->user()->id,
+            ]);
+
+            throw $e; // Let the exception handler format the response
+
+        } catch (\Exception $e) {
+            Log::error('Batch role change failed - unexpected error', [
+                'error' => $e->getMessage(),
+                'updated_by' => $request->user()->id,
+                'trace' => $e->getTraceAsString()
+            ]);
+
+            return $this->serverErrorResponse('Failed to update users. Please try again.');
+        }
+    }
+
+    /**
+     * Count the outcomes of a batch operation.
+     *
+     * @param array $results Per-user results
+     * @return array{total: int, succeeded: int, failed: int}
+     */
+    private function summarizeBatch(array $results): array
+    {
+        $succeeded = count(array_filter($results, fn($result) => $result['success']));
+
+        return [
+            'total' => count($results),
+            'succeeded' => $succeeded,
+            'failed' => count($results) - $succeeded,
+        ];
+    }
 }
@@ -0,0 +1,16 @@
+<?php
+
+namespace App\Http\Requests;
+
+class BatchDeleteUserRequest extends BatchUserRequest
+{
+    /**
+     * Get the authorization failure message.
+     *
+     * @return string
+     */
+    protected function getAuthorizationMessage(): string
+    {
+        return 'You are not authorized to delete users.';
+    }
+}
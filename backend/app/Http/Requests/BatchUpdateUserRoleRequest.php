@@ -0,0 +1,28 @@
+<?php
+
+namespace App\Http\Requests;
+
+class BatchUpdateUserRoleRequest extends BatchUserRequest
+{
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return array_merge(parent::rules(), [
+            'role' => $this->getRoleRules(),
+        ]);
+    }
+
+    /**
+     * Get the authorization failure message.
+     *
+     * @return string
+     */
+    protected function getAuthorizationMessage(): string
+    {
+        return 'You are not authorized to update users.';
+    }
+}
@@ -0,0 +1,68 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Enums\UserRole;
+use App\Services\UserService;
+use Illuminate\Validation\Rule;
+
+/**
+ * Selection of users for a batch operation: either explicit ids, or every
+ * user matching the list filters ("select all matching").
+ */
+abstract class BatchUserRequest extends BaseUserRequest
+{
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'ids' => ['required_without:filter', 'prohibits:filter', 'array', 'min:1', 'max:' . UserService::MAX_BATCH_SIZE],
+            'ids.*' => ['integer', 'distinct'],
+            'filter' => ['required_without:ids', 'array'],
+            'filter.search' => ['sometimes', 'nullable', 'string', 'max:255'],
+            'filter.role' => ['sometimes', 'nullable', 'string', Rule::in(UserRole::values())],
+        ];
+    }
+
+    /**
+     * Get custom validation messages.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return array_merge(parent::messages(), [
+            'ids.required_without' => 'Select at least one user.',
+            'ids.prohibits' => 'Send either selected ids or a filter, not both.',
+            'ids.min' => 'Select at least one user.',
+            'ids.max' => 'At most ' . UserService::MAX_BATCH_SIZE . ' users can be changed at once.',
+            'ids.*.integer' => 'User ids must be numbers.',
+            'ids.*.distinct' => 'Each user can only be selected once.',
+            'filter.role.in' => 'Please select a valid role filter.',
+        ]);
+    }
+
+    /**
+     * Selected user ids, or null when the filter selects the users.
+     *
+     * @return array<int>|null
+     */
+    public function selectedIds(): ?array
+    {
+        return $this->has('ids') ? array_map('intval', $this->validated('ids')) : null;
+    }
+
+    /**
+     * Filter selecting the users when no ids were sent.
+     *
+     * @return array{search?: string|null, role?: string|null}
+     */
+    public function selectionFilter(): array
+    {
+        return $this->validated('filter') ?? [];
+    }
+}
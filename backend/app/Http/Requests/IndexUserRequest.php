@@ -3,6 +3,7 @@
 namespace App\Http\Requests;
 
 use App\Enums\UserRole;
+use App\Services\UserService;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Validation\Rule;
 
@@ -28,6 +29,8 @@ public function rules(): array
             'per_page' => ['sometimes', 'integer', 'min:1', 'max:100'],
             'search' => ['sometimes', 'string', 'max:255'],
             'role' => ['sometimes', 'string', Rule::in(UserRole::values())],
+            'sort_by' => ['sometimes', 'string', Rule::in(array_keys(UserService::SORTABLE_COLUMNS))],
+            'sort_order' => ['sometimes', 'string', Rule::in(UserService::SORT_ORDERS)],
         ];
     }
 
@@ -48,6 +51,8 @@ public function messages(): array
             'search.max' => 'Search term cannot exceed 255 characters.',
             'role.string' => 'Role filter must be a valid string.',
             'role.in' => 'Please select a valid role filter.',
+            'sort_by.in' => 'Users can only be sorted by id, name, email, role or created_at.',
+            'sort_order.in' => 'Sort order must be asc or desc.',
         ];
     }
 }
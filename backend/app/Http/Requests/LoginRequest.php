@@ -5,6 +5,7 @@
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Contracts\Validation\Validator;
 use Illuminate\Http\Exceptions\HttpResponseException;
+use Illuminate\Http\Request;
 
 class LoginRequest extends FormRequest
 {
@@ -16,6 +17,18 @@ public function authorize(): bool
         return true;
     }
 
+    /**
+     * Key login rate limits by account and client IP.
+     *
+     * Logins arrive through the frontend server, so an IP alone could be
+     * shared by every user; the email keeps one person's failures from
+     * locking everyone else out.
+     */
+    public static function throttleKey(Request $request): string
+    {
+        return strtolower(trim((string) $request->input('email'))) . '|' . $request->ip();
+    }
+
     /**
      * Get the validation rules that apply to the request.
      *
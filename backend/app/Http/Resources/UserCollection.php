@@ -39,4 +39,19 @@ public function toArray(Request $request): array
             ],
         ];
     }
+
+    /**
+     * Leave the paginated response's meta and links to toArray.
+     *
+     * Laravel would otherwise merge its default pagination information into
+     * them recursively, turning each value into an array of two.
+     *
+     * @param array<string, mixed> $paginated
+     * @param array<string, mixed> $default
+     * @return array<string, mixed>
+     */
+    public function paginationInformation(Request $request, array $paginated, array $default): array
+    {
+        return [];
+    }
 }
@@ -23,6 +23,7 @@ public function toArray(Request $request): array
             'full_name' => $this->full_name,
             'created_at' => $this->created_at->toISOString(),
             'updated_at' => $this->updated_at->toISOString(),
+            'deleted_at' => $this->deleted_at?->toISOString(),
         ];
     }
 }
@@ -2,6 +2,7 @@
 
 namespace App\Providers;
 
+use App\Http\Requests\LoginRequest;
 use Illuminate\Cache\RateLimiting\Limit;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\RateLimiter;
@@ -95,10 +96,11 @@ private function configureLoginRateLimit(): callable
     {
         return function (Request $request) {
             $attempts = config('throttle.login_attempts');
+            $key = LoginRequest::throttleKey($request);
 
             return [
-                Limit::perMinute($attempts)->by($request->ip()),
-                Limit::perMinute(1)->by($request->ip())
+                Limit::perMinute($attempts)->by($key),
+                Limit::perMinute(1)->by($key)
                     ->response($this->createRateLimitResponse(config('throttle.messages.login')))
             ];
         };
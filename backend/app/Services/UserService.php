@@ -9,6 +9,7 @@
 use App\Models\User;
 use Illuminate\Contracts\Pagination\LengthAwarePaginator;
 use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\Hash;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Mail;
@@ -18,10 +19,30 @@ class UserService
     private const DEFAULT_PER_PAGE = 15;
     private const MIN_SEARCH_LENGTH = 2;
     private const MAX_SEARCH_LENGTH = 255;
-    private const SEARCHABLE_COLUMNS = ['id', 'name', 'last_name', 'email', 'role', 'created_at', 'updated_at'];
+    private const SEARCHABLE_COLUMNS = ['id', 'name', 'last_name', 'email', 'role', 'created_at', 'updated_at', 'deleted_at'];
     private const ALLOWED_USER_FIELDS = ['name', 'last_name', 'email', 'password', 'role'];
     private const REQUIRED_CREATE_FIELDS = ['name', 'last_name', 'email', 'password', 'role'];
     private const SEARCHABLE_FIELDS = ['name', 'last_name', 'email'];
+    private const DEFAULT_SORT_BY = 'created_at';
+    private const DEFAULT_SORT_ORDER = 'desc';
+
+    /**
+     * Columns the user list may be sorted by, mapped to the database columns they order by.
+     */
+    public const SORTABLE_COLUMNS = [
+        'id' => ['id'],
+        'name' => ['name', 'last_name'],
+        'email' => ['email'],
+        'role' => ['role'],
+        'created_at' => ['created_at'],
+    ];
+
+    public const SORT_ORDERS = ['asc', 'desc'];
+
+    /**
+     * Most users a single batch operation may change.
+     */
+    public const MAX_BATCH_SIZE = 500;
 
     /**
      * Get paginated users with optional search and role filtering.
@@ -29,7 +50,10 @@ class UserService
      * @param int $perPage Number of users per page (default: 15)
      * @param string|null $search Search term for name, last_name, or email
      * @param string|null $roleFilter Filter by specific role
+     * @param string|null $sortBy Column to sort by, one of SORTABLE_COLUMNS (default: created_at)
+     * @param string|null $sortOrder Sort direction, asc or desc (default: desc)
      * @param array $with Relationships to eager load
+     * @param bool $onlyTrashed List soft deleted users instead, most recently deleted first unless sorted
      * @return LengthAwarePaginator Paginated user collection
      * @throws UserManagementException When query fails
      */
@@ -37,17 +61,23 @@ public function getPaginatedUsers(
         int $perPage = self::DEFAULT_PER_PAGE,
         ?string $search = null,
         ?string $roleFilter = null,
-        array $with = []
+        ?string $sortBy = null,
+        ?string $sortOrder = null,
+        array $with = [],
+        bool $onlyTrashed = false
     ): LengthAwarePaginator {
-        return PerformanceHelper::timeExecution(function () use ($perPage, $search, $roleFilter, $with) {
+        return PerformanceHelper::timeExecution(function () use ($perPage, $search, $roleFilter, $sortBy, $sortOrder, $with, $onlyTrashed) {
             $query = User::query()
                 ->select(self::SEARCHABLE_COLUMNS)
-                ->when(!empty($with), fn($q) => $q->with($with));
+                ->when(!empty($with), fn($q) => $q->with($with))
+                ->when($onlyTrashed, fn($q) => $q->onlyTrashed())
+                ->when($onlyTrashed && $sortBy === null, fn($q) => $q->orderBy('deleted_at', 'desc'));
 
             $this->applySearchFilter($query, $search);
             $this->applyRoleFilter($query, $roleFilter);
+            $this->applySorting($query, $sortBy, $sortOrder);
 
-            return $query->orderBy('created_at', 'desc')->paginate($perPage);
+            return $query->paginate($perPage);
         }, 'getPaginatedUsers');
     }
 
@@ -260,6 +290,157 @@ public function deleteUser(User $user, User $deletedBy): User
         }
     }
 
+    /**
+     * Restore a soft deleted user.
+     *
+     * The user's API tokens were revoked on deletion, so they sign in again.
+     *
+     * @param User $user Soft deleted user to restore
+     * @param User $restoredBy User performing the restore
+     * @return User Restored user instance
+     * @throws UserManagementException When restoring fails
+     */
+    public function restoreUser(User $user, User $restoredBy): User
+    {
+        $context = [
+            'restored_by' => $restoredBy->id,
+            'user_id' => $user->id,
+            'user_email' => $user->email
+        ];
+
+        try {
+            $user->restore();
+
+            Log::info('User restored successfully', $context);
+
+            return $user;
+
+        } catch (\Exception $e) {
+            Log::error('User restore failed - unexpected error', array_merge($context, [
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString()
+            ]));
+
+            throw new UserManagementException(
+                'An unexpected error occurred while restoring the user',
+                'USER_RESTORE_FAILED',
+                500,
+                $e
+            );
+        }
+    }
+
+    /**
+     * Permanently delete a soft deleted user.
+     *
+     * Only users already in the trash can be purged, so an active user is
+     * never removed by a single request.
+     *
+     * @param User $user Soft deleted user to purge
+     * @param User $purgedBy User performing the purge
+     * @return void
+     * @throws UserManagementException When the user is not deleted or purging fails
+     */
+    public function purgeUser(User $user, User $purgedBy): void
+    {
+        if (!$user->trashed()) {
+            throw new UserManagementException(
+                'Only deleted users can be permanently deleted',
+                'USER_NOT_DELETED',
+                422
+            );
+        }
+
+        $context = [
+            'purged_by' => $purgedBy->id,
+            'user_id' => $user->id,
+            'user_email' => $user->email
+        ];
+
+        try {
+            $user->tokens()->delete();
+            $user->forceDelete();
+
+            Log::info('User permanently deleted', $context);
+
+        } catch (\Exception $e) {
+            Log::error('User purge failed - unexpected error', array_merge($context, [
+                'error' => $e->getMessage(),
+                'trace' => $e->getTraceAsString()
+            ]));
+
+            throw new UserManagementException(
+                'An unexpected error occurred while permanently deleting the user',
+                'USER_PURGE_FAILED',
+                500,
+                $e
+            );
+        }
+    }
+
+    /**
+     * Soft delete several users, reporting the outcome per user.
+     *
+     * Users that do not exist, are already deleted, or are the acting
+     * administrator are reported as failed; the others are still deleted.
+     *
+     * @param array<int>|null $ids Selected user ids, or null to use the filter
+     * @param array $filter Search and role filter selecting the users when no ids are given
+     * @param User $deletedBy User performing the deletion
+     * @return array<int, array{id: int, email: string|null, success: bool, message: string}>
+     * @throws UserManagementException When the filter matches too many users
+     */
+    public function batchDeleteUsers(?array $ids, array $filter, User $deletedBy): array
+    {
+        return $this->runBatch($ids, $filter, function (User $user) use ($deletedBy) {
+            if ($user->id === $deletedBy->id) {
+                throw new UserManagementException(
+                    'You cannot delete your own account',
+                    'SELF_DELETION_NOT_ALLOWED',
+                    422
+                );
+            }
+
+            $this->deleteUser($user, $deletedBy);
+
+            return 'User deleted successfully';
+        });
+    }
+
+    /**
+     * Change the role of several users, reporting the outcome per user.
+     *
+     * The acting administrator cannot change their own role, so an admin can
+     * never lock themselves out by demoting a selection that includes them.
+     *
+     * @param array<int>|null $ids Selected user ids, or null to use the filter
+     * @param array $filter Search and role filter selecting the users when no ids are given
+     * @param string $role Role to assign
+     * @param User $updatedBy User performing the update
+     * @return array<int, array{id: int, email: string|null, success: bool, message: string}>
+     * @throws UserManagementException When the filter matches too many users
+     */
+    public function batchUpdateRole(?array $ids, array $filter, string $role, User $updatedBy): array
+    {
+        return $this->runBatch($ids, $filter, function (User $user) use ($role, $updatedBy) {
+            if ($user->id === $updatedBy->id) {
+                throw new UserManagementException(
+                    'You cannot change your own role',
+                    'SELF_ROLE_CHANGE_NOT_ALLOWED',
+                    422
+                );
+            }
+
+            if ($user->role->value === $role) {
+                return 'User already has this role';
+            }
+
+            $this->updateUser($user, ['role' => $role], $updatedBy);
+
+            return 'User role updated successfully';
+        });
+    }
+
     /**
      * Find user by ID including soft deleted ones.
      *
@@ -271,6 +452,86 @@ public function findUserWithTrashed(int $id): ?User
         return User::withTrashed()->find($id);
     }
 
+    /**
+     * Resolve a batch selection and apply an operation to each user.
+     *
+     * The operation returns a success message or throws; one failing user
+     * does not stop the others.
+     *
+     * @param array<int>|null $ids Selected user ids, or null to use the filter
+     * @param array $filter Search and role filter selecting the users when no ids are given
+     * @param callable(User): string $operation Operation to apply
+     * @return array<int, array{id: int, email: string|null, success: bool, message: string}>
+     * @throws UserManagementException When the filter matches too many users
+     */
+    private function runBatch(?array $ids, array $filter, callable $operation): array
+    {
+        $users = $ids !== null
+            ? User::withTrashed()->whereIn('id', $ids)->get()->keyBy('id')
+            : $this->findUsersMatching($filter);
+
+        $results = [];
+
+        foreach ($ids ?? $users->keys()->all() as $id) {
+            $user = $users->get($id);
+
+            if (!$user || $user->trashed()) {
+                $results[] = $this->batchResult($id, $user?->email, false, 'User not found or has already been deleted');
+                continue;
+            }
+
+            try {
+                $results[] = $this->batchResult($user->id, $user->email, true, $operation($user));
+            } catch (UserManagementException $e) {
+                $results[] = $this->batchResult($user->id, $user->email, false, $e->getMessage());
+            }
+        }
+
+        return $results;
+    }
+
+    /**
+     * Users matching the list filters, keyed by id.
+     *
+     * @param array $filter Search and role filter
+     * @return Collection<int, User>
+     * @throws UserManagementException When the filter matches more than MAX_BATCH_SIZE users
+     */
+    private function findUsersMatching(array $filter): Collection
+    {
+        $query = User::query();
+
+        $this->applySearchFilter($query, $filter['search'] ?? null);
+        $this->applyRoleFilter($query, $filter['role'] ?? null);
+
+        $users = $query->orderBy('id')->limit(self::MAX_BATCH_SIZE + 1)->get();
+
+        if ($users->count() > self::MAX_BATCH_SIZE) {
+            throw new UserManagementException(
+                'The filter matches more than ' . self::MAX_BATCH_SIZE . ' users. Narrow it down and try again.',
+                'BATCH_TOO_LARGE',
+                422
+            );
+        }
+
+        return $users->keyBy('id');
+    }
+
+    /**
+     * Build the outcome of a batch operation for one user.
+     *
+     * @return array{id: int, email: string|null, success: bool, message: string}
+     */
+    private function batchResult(int $id, ?string $email, bool $success, string $message): array
+    {
+        return [
+            'id' => $id,
+            'email' => $email,
+            'success' => $success,
+            'message' => $message,
+        ];
+    }
+
     /**
      * Apply search filter to query with optimized LIKE queries.
      *
@@ -316,6 +577,31 @@ private function applyRoleFilter(Builder $query, ?string $roleFilter): void
         }
     }
 
+    /**
+     * Apply allow-listed sorting to query.
+     *
+     * Unknown columns or directions fall back to the default order. The id is
+     * always added as a tie-breaker so pages stay stable across requests.
+     *
+     * @param Builder $query Query builder instance
+     * @param string|null $sortBy Column to sort by
+     * @param string|null $sortOrder Sort direction
+     * @return void
+     */
+    private function applySorting(Builder $query, ?string $sortBy, ?string $sortOrder): void
+    {
+        $sortBy = array_key_exists($sortBy ?? '', self::SORTABLE_COLUMNS) ? $sortBy : self::DEFAULT_SORT_BY;
+        $sortOrder = in_array($sortOrder, self::SORT_ORDERS, true) ? $sortOrder : self::DEFAULT_SORT_ORDER;
+
+        foreach (self::SORTABLE_COLUMNS[$sortBy] as $column) {
+            $query->orderBy($column, $sortOrder);
+        }
+
+        if ($sortBy !== 'id') {
+            $query->orderBy('id', $sortOrder);
+        }
+    }
+
     /**
      * Validate user data for creation or update.
      *
@@ -39,6 +39,8 @@
     // Protected authentication routes
     Route::middleware(array_filter(['auth:sanctum', app()->environment('testing') ? null : 'throttle:api']))->group(function () {
         Route::post('/logout', [AuthController::class, 'logout']);
+        Route::post('/logout-all', [AuthController::class, 'logoutAll']);
+        Route::post('/refresh', [AuthController::class, 'refresh']);
         Route::get('/me', [AuthController::class, 'me']);
     });
 });
@@ -52,6 +54,7 @@
     // User listing routes (both administrator and reviewer can access)
     Route::middleware('role:administrator,reviewer')->group(function () {
         Route::get('/users', [UserController::class, 'index']);
+        Route::get('/users/{id}', [UserController::class, 'show'])->whereNumber('id');
 
         // Test route for multi-role access
         Route::get('/user-list-test', function () {
@@ -66,6 +69,11 @@
     // User management routes (administrator only) with stricter rate limiting for write operations
     Route::middleware(array_filter(['role:administrator', app()->environment('testing') ? null : 'throttle:sensitive-operations']))->group(function () {
         Route::post('/users', [UserController::class, 'store']);
+        Route::post('/users/batch/delete', [UserController::class, 'batchDestroy']);
+        Route::post('/users/batch/role', [UserController::class, 'batchUpdateRole']);
+        Route::get('/users/trash', [UserController::class, 'trash']);
+        Route::post('/users/{id}/restore', [UserController::class, 'restore'])->whereNumber('id');
+        Route::delete('/users/{id}/purge', [UserController::class, 'purge'])->whereNumber('id');
         Route::put('/users/{id}', [UserController::class, 'update']);
         Route::delete('/users/{id}', [UserController::class, 'destroy']);
 
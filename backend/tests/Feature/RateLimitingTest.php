@@ -16,7 +16,7 @@ protected function setUp(): void
         parent::setUp();
 
         // Clear any existing rate limits before each test
-        RateLimiter::clear('login_attempts:127.0.0.1');
+        RateLimiter::clear('login_attempts:test@example.com|127.0.0.1');
     }
 
     public function test_login_rate_limiting_blocks_excessive_attempts()
@@ -51,6 +51,25 @@ public function test_login_rate_limiting_blocks_excessive_attempts()
             ]);
     }
 
+    public function test_login_rate_limit_does_not_block_other_accounts_on_the_same_ip()
+    {
+        // Logins reach the API through the frontend server, so many users
+        // can share one IP
+        for ($i = 0; $i < 6; $i++) {
+            $this->postJson('/api/auth/login', [
+                'email' => 'test@example.com',
+                'password' => 'wrongpassword'
+            ]);
+        }
+
+        $response = $this->postJson('/api/auth/login', [
+            'email' => 'other@example.com',
+            'password' => 'wrongpassword'
+        ]);
+
+        $response->assertStatus(422);
+    }
+
     public function test_successful_login_works_within_rate_limit()
     {
         // Create a user for testing
@@ -186,7 +205,7 @@ public function test_rate_limit_response_includes_retry_after_header()
     protected function tearDown(): void
     {
         // Clear rate limits after each test
-        RateLimiter::clear('login_attempts:127.0.0.1');
+        RateLimiter::clear('login_attempts:test@example.com|127.0.0.1');
 
         parent::tearDown();
     }
@@ -5,6 +5,7 @@
 use App\Enums\UserRole;
 use App\Models\User;
 use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\PersonalAccessToken;
 use Tests\TestCase;
 
 /**
@@ -136,6 +137,7 @@ public function test_user_can_login_with_valid_credentials()
                  ]);
 
         $this->assertNotEmpty($response->json('data.token'));
+        $this->assertNotNull($response->json('data.expires_at'));
     }
 
     public function test_user_cannot_login_with_invalid_credentials()
@@ -213,6 +215,68 @@ public function test_user_can_logout()
         ]);
     }
 
+    public function test_user_can_logout_of_all_devices()
+    {
+        $user = User::factory()->create();
+        $token = $user->createToken('auth-token')->plainTextToken;
+        $user->createToken('auth-token');
+        $otherUser = User::factory()->create();
+        $otherUser->createToken('auth-token');
+
+        $response = $this->withHeaders([
+            'Authorization' => 'Bearer ' . $token,
+        ])->postJson('/api/auth/logout-all');
+
+        $response->assertStatus(200)
+                 ->assertJson([
+                     'success' => true,
+                     'message' => 'Logged out of all devices',
+                     'data' => ['revoked' => 2],
+                 ]);
+
+        $this->assertDatabaseMissing('personal_access_tokens', [
+            'tokenable_id' => $user->id,
+            'tokenable_type' => User::class,
+        ]);
+
+        // Other users stay signed in
+        $this->assertDatabaseHas('personal_access_tokens', [
+            'tokenable_id' => $otherUser->id,
+            'tokenable_type' => User::class,
+        ]);
+    }
+
+    public function test_logout_of_all_devices_requires_authentication()
+    {
+        $this->postJson('/api/auth/logout-all')->assertStatus(401);
+    }
+
+    public function test_user_can_refresh_token()
+    {
+        $user = User::factory()->create();
+        $token = $user->createToken('auth-token')->plainTextToken;
+
+        $response = $this->withHeaders([
+            'Authorization' => 'Bearer ' . $token,
+        ])->postJson('/api/auth/refresh');
+
+        $response->assertStatus(200)
+                 ->assertJsonStructure([
+                     'success',
+                     'message',
+                     'data' => ['token', 'expires_at'],
+                 ])
+                 ->assertJson([
+                     'success' => true,
+                     'message' => 'Token refreshed',
+                 ]);
+
+        // The old token is replaced by the new one
+        $this->assertDatabaseCount('personal_access_tokens', 1);
+        $this->assertNull(PersonalAccessToken::findToken($token));
+        $this->assertNotNull(PersonalAccessToken::findToken($response->json('data.token')));
+    }
+
     public function test_user_can_get_profile_information()
     {
         $user = User::factory()->create([
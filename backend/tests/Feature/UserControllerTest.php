@@ -72,6 +72,28 @@ public function administrator_can_view_user_list()
         $this->assertGreaterThanOrEqual(7, $response->json('meta.total')); // 2 test users + 5 created
     }
 
+    /** @test */
+    public function user_list_pagination_matches_the_frontend_contract()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $response = $this->getJson('/api/users?per_page=1');
+
+        // The frontend rejects unknown keys and non-scalar values here
+        $response->assertStatus(200);
+        $this->assertEqualsCanonicalizing(
+            ['current_page', 'last_page', 'per_page', 'total', 'from', 'to'],
+            array_keys($response->json('meta'))
+        );
+        $this->assertEqualsCanonicalizing(
+            ['first', 'last', 'prev', 'next'],
+            array_keys($response->json('links'))
+        );
+        $this->assertSame(1, $response->json('meta.current_page'));
+        $this->assertSame(2, $response->json('meta.total'));
+        $this->assertIsString($response->json('links.next'));
+    }
+
     /** @test */
     public function reviewer_can_view_user_list()
     {
@@ -153,6 +175,100 @@ public function user_list_supports_role_filter()
         }
     }
 
+    /** @test */
+    public function user_list_supports_sorting()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        User::factory()->create(['name' => 'Zoe', 'last_name' => 'Adams']);
+        User::factory()->create(['name' => 'Aaron', 'last_name' => 'Young']);
+
+        $response = $this->getJson('/api/users?sort_by=name&sort_order=asc&per_page=100');
+
+        $response->assertStatus(200);
+        $names = collect($response->json('data'))
+            ->pluck('name')
+            ->filter(fn($name) => in_array($name, ['Zoe', 'Aaron']))
+            ->values()
+            ->all();
+        $this->assertEquals(['Aaron', 'Zoe'], $names);
+    }
+
+    /** @test */
+    public function user_list_sorting_is_kept_across_pages()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        User::factory()->count(12)->create();
+
+        $firstPage = $this->getJson('/api/users?sort_by=email&sort_order=desc&per_page=5&page=1');
+        $secondPage = $this->getJson('/api/users?sort_by=email&sort_order=desc&per_page=5&page=2');
+
+        $lastOnFirstPage = collect($firstPage->json('data'))->last()['email'];
+        $firstOnSecondPage = collect($secondPage->json('data'))->first()['email'];
+        $this->assertGreaterThanOrEqual(0, strcmp($lastOnFirstPage, $firstOnSecondPage));
+    }
+
+    /** @test */
+    public function user_list_rejects_columns_outside_the_sort_allow_list()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $response = $this->getJson('/api/users?sort_by=password&sort_order=sideways');
+
+        $response->assertStatus(422)
+            ->assertJsonValidationErrors(['sort_by', 'sort_order']);
+    }
+
+    /** @test */
+    public function reviewer_can_view_a_single_user()
+    {
+        Sanctum::actingAs($this->reviewer);
+
+        $user = User::factory()->create(['role' => UserRole::REVIEWER]);
+
+        $response = $this->getJson("/api/users/{$user->id}");
+
+        $response->assertStatus(200)
+            ->assertJson([
+                'message' => 'User retrieved successfully',
+                'data' => [
+                    'id' => $user->id,
+                    'email' => $user->email,
+                    'role' => 'reviewer',
+                    'deleted_at' => null,
+                ]
+            ]);
+    }
+
+    /** @test */
+    public function viewing_a_deleted_user_shows_when_it_was_deleted()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $user = User::factory()->create();
+        $user->delete();
+
+        $response = $this->getJson("/api/users/{$user->id}");
+
+        $response->assertStatus(200);
+        $this->assertNotNull($response->json('data.deleted_at'));
+    }
+
+    /** @test */
+    public function viewing_a_missing_user_returns_not_found()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $response = $this->getJson('/api/users/999999');
+
+        $response->assertStatus(404)
+            ->assertJson([
+                'success' => false,
+                'error_code' => 'NOT_FOUND'
+            ]);
+    }
+
     /** @test */
     public function administrator_can_create_user()
     {
@@ -483,4 +599,181 @@ public function user_tokens_are_revoked_when_deleted()
             'name' => 'test-token',
         ]);
     }
+
+    /** @test */
+    public function administrator_can_list_deleted_users()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $deleted = User::factory()->count(2)->create();
+        $deleted->each->delete();
+        User::factory()->create();
+
+        $response = $this->getJson('/api/users/trash');
+
+        $response->assertStatus(200)
+            ->assertJsonPath('meta.total', 2)
+            ->assertJsonPath('data.0.id', $deleted[1]->id);
+
+        $this->assertNotNull($response->json('data.0.deleted_at'));
+    }
+
+    /** @test */
+    public function administrator_can_restore_a_deleted_user()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $user = User::factory()->create();
+        $user->delete();
+
+        $response = $this->postJson("/api/users/{$user->id}/restore");
+
+        $response->assertStatus(200)
+            ->assertJson([
+                'message' => 'User restored successfully',
+                'data' => ['id' => $user->id, 'deleted_at' => null]
+            ]);
+
+        $this->assertNotSoftDeleted('users', ['id' => $user->id]);
+    }
+
+    /** @test */
+    public function cannot_restore_a_user_that_is_not_deleted()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $this->postJson("/api/users/{$this->reviewer->id}/restore")
+            ->assertStatus(404);
+    }
+
+    /** @test */
+    public function administrator_can_permanently_delete_a_deleted_user()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $user = User::factory()->create();
+        $user->delete();
+
+        $response = $this->deleteJson("/api/users/{$user->id}/purge");
+
+        $response->assertStatus(200)
+            ->assertJson(['message' => 'User permanently deleted']);
+
+        $this->assertDatabaseMissing('users', ['id' => $user->id]);
+    }
+
+    /** @test */
+    public function cannot_permanently_delete_an_active_user()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $this->deleteJson("/api/users/{$this->reviewer->id}/purge")
+            ->assertStatus(422)
+            ->assertJson(['error_code' => 'USER_NOT_DELETED']);
+
+        $this->assertDatabaseHas('users', ['id' => $this->reviewer->id]);
+    }
+
+    /** @test */
+    public function reviewer_cannot_manage_the_trash()
+    {
+        Sanctum::actingAs($this->reviewer);
+
+        $user = User::factory()->create();
+        $user->delete();
+
+        $this->getJson('/api/users/trash')->assertStatus(403);
+        $this->postJson("/api/users/{$user->id}/restore")->assertStatus(403);
+        $this->deleteJson("/api/users/{$user->id}/purge")->assertStatus(403);
+    }
+
+    /** @test */
+    public function administrator_can_batch_delete_users_with_per_user_results()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $users = User::factory()->count(2)->create();
+
+        $response = $this->postJson('/api/users/batch/delete', [
+            'ids' => [$users[0]->id, $users[1]->id, $this->administrator->id, 999999],
+        ]);
+
+        $response->assertStatus(200)
+            ->assertJsonPath('data.summary', ['total' => 4, 'succeeded' => 2, 'failed' => 2])
+            ->assertJsonPath('data.results.2.id', $this->administrator->id)
+            ->assertJsonPath('data.results.2.success', false)
+            ->assertJsonPath('data.results.3.id', 999999)
+            ->assertJsonPath('data.results.3.success', false);
+
+        $this->assertSoftDeleted('users', ['id' => $users[0]->id]);
+        $this->assertSoftDeleted('users', ['id' => $users[1]->id]);
+        $this->assertNotSoftDeleted('users', ['id' => $this->administrator->id]);
+    }
+
+    /** @test */
+    public function administrator_can_batch_change_roles_of_users_matching_a_filter()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $matching = User::factory()->count(3)->create([
+            'name' => 'Batch',
+            'role' => UserRole::REVIEWER,
+        ]);
+
+        $response = $this->postJson('/api/users/batch/role', [
+            'filter' => ['search' => 'Batch', 'role' => 'reviewer'],
+            'role' => 'administrator',
+        ]);
+
+        $response->assertStatus(200)
+            ->assertJsonPath('data.summary.succeeded', 3);
+
+        foreach ($matching as $user) {
+            $this->assertEquals(UserRole::ADMINISTRATOR, $user->fresh()->role);
+        }
+        $this->assertEquals(UserRole::REVIEWER, $this->reviewer->fresh()->role);
+    }
+
+    /** @test */
+    public function administrator_cannot_change_their_own_role_in_a_batch()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $response = $this->postJson('/api/users/batch/role', [
+            'ids' => [$this->administrator->id],
+            'role' => 'reviewer',
+        ]);
+
+        $response->assertStatus(200)
+            ->assertJsonPath('data.results.0.success', false)
+            ->assertJsonPath('data.results.0.message', 'You cannot change your own role');
+
+        $this->assertEquals(UserRole::ADMINISTRATOR, $this->administrator->fresh()->role);
+    }
+
+    /** @test */
+    public function batch_operations_require_a_selection()
+    {
+        Sanctum::actingAs($this->administrator);
+
+        $this->postJson('/api/users/batch/delete', [])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['ids', 'filter']);
+
+        $this->postJson('/api/users/batch/delete', ['ids' => [$this->reviewer->id], 'filter' => ['role' => 'reviewer']])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['ids']);
+    }
+
+    /** @test */
+    public function reviewer_cannot_run_batch_operations()
+    {
+        Sanctum::actingAs($this->reviewer);
+
+        $this->postJson('/api/users/batch/delete', ['ids' => [$this->administrator->id]])
+            ->assertStatus(403);
+
+        $this->postJson('/api/users/batch/role', ['ids' => [$this->administrator->id], 'role' => 'reviewer'])
+            ->assertStatus(403);
+    }
 }
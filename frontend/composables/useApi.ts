@@ -1,29 +1,162 @@
 /**
  * API composable for making HTTP requests to the backend
  * Provides a centralized way to handle API communication with proper error handling,
- * CSRF protection, caching, and request/response interceptors
+ * CSRF protection, caching, and a shared request/response/error interceptor chain
  */
 
 import { HTTP_STATUS } from "~/types";
+import {
+  apiInterceptors,
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+  type ApiRequestContext,
+} from "../utils/api-interceptors";
+import {
+  formatContractIssue,
+  validateContract,
+  type Contract,
+  type ContractIssue,
+} from "../utils/contracts";
+import { createRequestDeduper, requestKey } from "../utils/request-dedup";
+import { useApiCache, type CacheOptions } from "./useApiCache";
+import { canReauthenticate, waitForReauthentication } from "./useReauth";
 
 // Types for better type safety
-type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
-interface RequestOptions {
+export interface RetryPolicy {
+  retries: number; // Retries after the first attempt
+  baseDelay: number; // Backoff base in milliseconds, doubled on each retry
+  maxDelay: number; // Upper bound for a single wait, including Retry-After
+  methods: HttpMethod[]; // Only idempotent methods are retried by default
+}
+
+export interface CallOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal; // Cancels the request when aborted
+  timeout?: number; // Milliseconds, defaults to runtimeConfig.public.apiTimeout (0 disables)
+  retry?: boolean | Partial<RetryPolicy>; // false opts out of retries for this call
+  contract?: Contract<unknown>; // Expected response shape, see utils/api-contracts
+}
+
+interface RequestOptions extends CallOptions {
   method?: HttpMethod;
   body?: unknown;
-  headers?: Record<string, string>;
 }
 
-interface GetOptions {
+export interface GetOptions
+  extends CallOptions,
+    Pick<CacheOptions, "tags" | "staleWhileRevalidate" | "onRevalidate"> {
   cache?: boolean;
   ttl?: number;
   force?: boolean;
-  headers?: Record<string, string>;
+  dedupe?: boolean; // Share one in-flight request between identical concurrent GETs
 }
 
+const DEFAULT_TIMEOUT = 10000;
+
+/** Nuxt server route forwarding to the backend with the session's token */
+export const API_PROXY_BASE = "/api/backend";
+
+/**
+ * Base URL for API requests: the server proxy, or the backend itself when
+ * runtimeConfig.public.apiProxy is off
+ */
+export const resolveApiBase = (publicConfig?: {
+  apiBase?: unknown;
+  apiProxy?: unknown;
+}): string =>
+  publicConfig?.apiProxy
+    ? API_PROXY_BASE
+    : (publicConfig?.apiBase as string) || "http://localhost:8000/api";
+
+/**
+ * Backend response body of a failed request
+ * The server proxy reports backend errors through createError, which nests
+ * the backend's body under `data`.
+ */
+const getErrorBody = (error: unknown): any => {
+  const body = (error as any)?.data || (error as any)?.response?.data || null;
+  return typeof body === "object" && body && "statusCode" in body
+    ? body.data ?? null
+    : body;
+};
+
+// Contract violations throw in development and test builds and are only logged in production
+const STRICT_CONTRACTS = Boolean(
+  import.meta.dev || import.meta.env?.MODE === "test"
+);
+
+// Identical GETs in flight across every useApi() instance in the browser
+const sharedInflightGets = createRequestDeduper();
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  methods: ["GET", "PUT", "DELETE"],
+};
+
+/**
+ * Wait for the given delay, rejecting early if the signal is aborted
+ */
+const sleep = (delay: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Read the server-requested wait (in milliseconds) from rate limit headers.
+ * Falls back to the `retry_after` field Laravel puts in throttled JSON bodies.
+ */
+const getServerRetryDelay = (error: ApiError): number | null => {
+  const headers: Headers | undefined = (error.originalError as any)?.response
+    ?.headers;
+
+  const retryAfter = headers?.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const remaining = headers?.get("X-RateLimit-Remaining");
+  const reset = Number(headers?.get("X-RateLimit-Reset"));
+  if (remaining === "0" && reset > 0) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  const bodyRetryAfter = Number((error.data as any)?.retry_after);
+  if (bodyRetryAfter > 0) {
+    return bodyRetryAfter * 1000;
+  }
+
+  return null;
+};
+
 // Proper error class hierarchy
-class ApiError extends Error {
+export class ApiError extends Error {
   constructor(
     public status: number,
     message: string,
@@ -35,7 +168,7 @@ class ApiError extends Error {
   }
 }
 
-class ValidationError extends ApiError {
+export class ValidationError extends ApiError {
   constructor(
     message: string,
     public errors: Record<string, string[]>,
@@ -46,13 +179,48 @@ class ValidationError extends ApiError {
   }
 }
 
-class NetworkError extends ApiError {
+export class NetworkError extends ApiError {
   constructor(message: string = "Network error occurred") {
     super(0, message);
     this.name = "NetworkError";
   }
 }
 
+export class TimeoutError extends ApiError {
+  constructor(
+    public timeout: number,
+    message: string = `Request timed out after ${timeout}ms`
+  ) {
+    super(HTTP_STATUS.REQUEST_TIMEOUT, message);
+    this.name = "TimeoutError";
+  }
+}
+
+/** Response that does not match the contract declared for its endpoint */
+export class ContractError extends Error {
+  public path: string;
+
+  constructor(
+    public endpoint: string,
+    public issues: ContractIssue[]
+  ) {
+    super(
+      `Response from ${endpoint} does not match its contract: ${issues
+        .map(formatContractIssue)
+        .join("; ")}`
+    );
+    this.name = "ContractError";
+    this.path = issues[0]?.path ?? "";
+  }
+}
+
+/**
+ * Check whether an error comes from a request cancelled by the caller
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (error as any)?.name === "AbortError";
+};
+
 // API endpoints for better type safety and maintainability
 export const API_ENDPOINTS = {
   AUTH: {
@@ -70,7 +238,26 @@ export const API_ENDPOINTS = {
 
 export const useApi = () => {
   const config = useRuntimeConfig();
-  const apiBase = config?.public?.apiBase || "http://localhost:8000/api";
+  const apiBase = resolveApiBase(config?.public);
+  // During SSR the proxy needs the incoming request's session cookie
+  const fetcher =
+    import.meta.server && apiBase === API_PROXY_BASE
+      ? useRequestFetch()
+      : $fetch;
+  // The forwarded session cookie is not part of the dedupe key, so on the
+  // server each instance dedupes alone and SSR requests never share responses
+  const inflightGets = import.meta.server
+    ? createRequestDeduper()
+    : sharedInflightGets;
+  const apiTimeout = Number(config?.public?.apiTimeout) || DEFAULT_TIMEOUT;
+  const retryPolicy: RetryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    retries: Number(
+      config?.public?.apiRetryAttempts ?? DEFAULT_RETRY_POLICY.retries
+    ),
+    baseDelay:
+      Number(config?.public?.apiRetryDelay) || DEFAULT_RETRY_POLICY.baseDelay,
+  };
 
   /**
    * Validate endpoint format
@@ -123,21 +310,35 @@ export const useApi = () => {
   };
 
   /**
-   * Request interceptor for logging and transformation
+   * Combine the caller's signal with a timeout into a single request signal
    */
-  const onRequest = (endpoint: string, options: any) => {
-    logger.debug(`${options.method || "GET"} ${endpoint}`);
-    options._startTime = Date.now();
-    return options;
-  };
+  const createRequestSignal = (signal: AbortSignal | undefined, timeout: number) => {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
 
-  /**
-   * Response interceptor for logging and transformation
-   */
-  const onResponse = <T>(endpoint: string, options: any, response: T): T => {
-    const duration = Date.now() - (options._startTime || 0);
-    logger.debug(`${options.method || "GET"} ${endpoint} - ${duration}ms`);
-    return response;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort(new TimeoutError(timeout));
+          }, timeout)
+        : undefined;
+
+    return {
+      signal: controller.signal,
+      didTimeOut: () => timedOut,
+      dispose: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      },
+    };
   };
 
   /**
@@ -152,6 +353,18 @@ export const useApi = () => {
     }
   };
 
+  /**
+   * Whether a user was signed in when the request failed; a visitor who never
+   * was has no work to keep and goes through the usual login redirect
+   */
+  const hasSession = (): boolean => {
+    try {
+      return useUserSession().loggedIn?.value === true;
+    } catch {
+      return false;
+    }
+  };
+
   /**
    * Get appropriate error message for status code
    */
@@ -165,6 +378,8 @@ export const useApi = () => {
         return "You are not authorized to perform this action.";
       case HTTP_STATUS.NOT_FOUND:
         return "The requested resource was not found.";
+      case HTTP_STATUS.REQUEST_TIMEOUT:
+        return "The request timed out. Please try again.";
       case HTTP_STATUS.TOO_MANY_REQUESTS:
         return "Too many requests. Please try again later.";
       case 0:
@@ -187,7 +402,7 @@ export const useApi = () => {
     logger.error(`${method} Error:`, error);
 
     const status = (error as any)?.status || (error as any)?.statusCode || 0;
-    const data = (error as any)?.data || (error as any)?.response?.data || null;
+    const data = getErrorBody(error);
     const message = (error as any)?.message || (error as any)?.statusMessage;
 
     // Handle specific error types with proper classes
@@ -222,42 +437,196 @@ export const useApi = () => {
   };
 
   /**
-   * Generic request method to reduce code duplication
+   * Resolve the retry policy for a call, or null when retries do not apply
    */
-  const request = async <T>(
-    endpoint: string,
+  const resolveRetryPolicy = (
+    method: HttpMethod,
+    retry: CallOptions["retry"] = true
+  ): RetryPolicy | null => {
+    if (retry === false) {
+      return null;
+    }
+
+    const policy = retry === true ? retryPolicy : { ...retryPolicy, ...retry };
+    return policy.retries > 0 && policy.methods.includes(method)
+      ? policy
+      : null;
+  };
+
+  /**
+   * Compute how long to wait before the next attempt, or null to give up
+   */
+  const getRetryDelay = (
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy
+  ): number | null => {
+    if (!(error instanceof ApiError) || error instanceof TimeoutError) {
+      return null;
+    }
+
+    const isTransient =
+      error instanceof NetworkError ||
+      error.status === HTTP_STATUS.TOO_MANY_REQUESTS ||
+      error.status >= HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    if (!isTransient) {
+      return null;
+    }
+
+    const serverDelay = getServerRetryDelay(error);
+    if (serverDelay !== null) {
+      // Retrying sooner than the server allows would only be throttled again
+      return serverDelay <= policy.maxDelay ? serverDelay : null;
+    }
+
+    // Exponential backoff with jitter so concurrent clients spread out
+    const backoff = Math.min(
+      policy.maxDelay,
+      policy.baseDelay * 2 ** (attempt - 1)
+    );
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  };
+
+  /**
+   * Perform a single request attempt through the interceptor chain
+   */
+  const executeRequest = async <T>(
+    context: ApiRequestContext,
     options: RequestOptions = {}
   ): Promise<T> => {
-    const validatedEndpoint = validateEndpoint(endpoint);
-    const { method = "GET", body, headers: customHeaders } = options;
+    const { headers: customHeaders, signal, timeout = apiTimeout } = options;
+
+    context.headers = {
+      ...(await getRequestHeaders(context.method)),
+      ...customHeaders,
+    };
+    Object.assign(context, await runRequestInterceptors(context));
+
+    const { endpoint, method, headers, body } = context;
+    const requestSignal = createRequestSignal(signal, timeout);
 
     try {
-      const requestHeaders = await getRequestHeaders(method);
       const requestOptions: any = {
         method,
         credentials: "include",
-        headers: {
-          ...requestHeaders,
-          ...customHeaders,
-        },
+        signal: requestSignal.signal,
+        headers,
+        // Retries belong to request(), which honours Retry-After and backoff
+        retry: 0,
+        retryDelay: 0,
       };
 
       if (body && method !== "GET") {
         requestOptions.body = JSON.stringify(body);
       }
 
-      // Apply request interceptor
-      onRequest(validatedEndpoint, requestOptions);
+      logger.debug(`${method} ${endpoint}`);
+      const startTime = Date.now();
 
-      const response = await $fetch<T>(
-        `${apiBase}${validatedEndpoint}`,
+      const response = await fetcher<T>(
+        `${apiBase}${endpoint}`,
         requestOptions
       );
 
-      // Apply response interceptor
-      return onResponse(validatedEndpoint, requestOptions, response);
+      logger.debug(`${method} ${endpoint} - ${Date.now() - startTime}ms`);
+      return (await runResponseInterceptors(response, context)) as T;
     } catch (error) {
+      if (requestSignal.didTimeOut()) {
+        logger.warn(`${method} ${endpoint} timed out after ${timeout}ms`);
+        throw new TimeoutError(timeout);
+      }
+
+      // Cancelled by the caller: surface the abort reason untouched
+      if (signal?.aborted) {
+        logger.debug(`${method} ${endpoint} aborted`);
+        throw signal.reason ?? error;
+      }
+
       return await handleApiError(error, method);
+    } finally {
+      requestSignal.dispose();
+    }
+  };
+
+  /**
+   * Check a response against its contract: throw when strict, log otherwise
+   */
+  const enforceContract = (
+    response: unknown,
+    contract: Contract<unknown>,
+    context: ApiRequestContext
+  ): void => {
+    const issues = validateContract(contract, response);
+    if (issues.length === 0) return;
+
+    const error = new ContractError(
+      `${context.method} ${context.endpoint}`,
+      issues
+    );
+    if (STRICT_CONTRACTS) {
+      throw error;
+    }
+    logger.warn(error.message);
+  };
+
+  /**
+   * Generic request method with retries for transient failures
+   */
+  const request = async <T>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<T> => {
+    const validatedEndpoint = validateEndpoint(endpoint);
+    const { method = "GET", body, signal, retry } = options;
+    const policy = resolveRetryPolicy(method, retry);
+    let reauthenticated = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const context: ApiRequestContext = {
+        endpoint: validatedEndpoint,
+        method,
+        headers: {},
+        body,
+        attempt,
+        meta: {},
+      };
+
+      try {
+        const response = await executeRequest<T>(context, options);
+        if (options.contract) {
+          enforceContract(response, options.contract, context);
+        }
+        return response;
+      } catch (error) {
+        // Session lapsed mid-task: once the user signs in again, send it again
+        if (
+          !reauthenticated &&
+          (error as ApiError)?.status === HTTP_STATUS.UNAUTHORIZED &&
+          !signal?.aborted &&
+          canReauthenticate() &&
+          hasSession() &&
+          (await waitForReauthentication())
+        ) {
+          reauthenticated = true;
+          continue;
+        }
+
+        const delay =
+          policy && attempt <= policy.retries && !signal?.aborted
+            ? getRetryDelay(error, attempt, policy)
+            : null;
+
+        if (delay === null || !policy) {
+          throw isAbortError(error)
+            ? error
+            : await runErrorInterceptors(error, context);
+        }
+
+        logger.warn(
+          `${method} ${validatedEndpoint} failed (${(error as ApiError).status}), retry ${attempt}/${policy.retries} in ${delay}ms`
+        );
+        await sleep(delay, signal);
+      }
     }
   };
 
@@ -268,21 +637,46 @@ export const useApi = () => {
     endpoint: string,
     options: GetOptions = {}
   ): Promise<T> => {
-    const { cache = false, ttl, force = false, headers } = options;
+    const {
+      cache = false,
+      ttl,
+      force = false,
+      dedupe = true,
+      signal,
+      tags,
+      staleWhileRevalidate,
+      onRevalidate,
+      ...callOptions
+    } = options;
 
     if (cache) {
       const { cachedRequest } = useApiCache();
       return cachedRequest<T>(
         endpoint,
-        () => request<T>(endpoint, { headers }),
+        (sharedSignal) =>
+          request<T>(endpoint, { ...callOptions, signal: sharedSignal }),
         {
           ttl,
           force,
+          signal,
+          tags,
+          staleWhileRevalidate,
+          onRevalidate,
+          headers: callOptions.headers,
         }
       );
     }
 
-    return request<T>(endpoint, { headers });
+    if (!dedupe) {
+      return request<T>(endpoint, { ...callOptions, signal });
+    }
+
+    return inflightGets.dedupe<T>(
+      requestKey("GET", `${apiBase}${endpoint}`, callOptions.headers),
+      (sharedSignal) =>
+        request<T>(endpoint, { ...callOptions, signal: sharedSignal }),
+      signal
+    );
   };
 
   /**
@@ -291,12 +685,12 @@ export const useApi = () => {
   const post = async <T>(
     endpoint: string,
     body: any,
-    options: { headers?: Record<string, string> } = {}
+    options: CallOptions = {}
   ): Promise<T> => {
     return request<T>(endpoint, {
+      ...options,
       method: "POST",
       body,
-      headers: options.headers,
     });
   };
 
@@ -306,12 +700,12 @@ export const useApi = () => {
   const put = async <T>(
     endpoint: string,
     body: any,
-    options: { headers?: Record<string, string> } = {}
+    options: CallOptions = {}
   ): Promise<T> => {
     return request<T>(endpoint, {
+      ...options,
       method: "PUT",
       body,
-      headers: options.headers,
     });
   };
 
@@ -320,9 +714,9 @@ export const useApi = () => {
    */
   const del = async <T>(
     endpoint: string,
-    options: { headers?: Record<string, string> } = {}
+    options: CallOptions = {}
   ): Promise<T> => {
-    return request<T>(endpoint, { method: "DELETE", headers: options.headers });
+    return request<T>(endpoint, { ...options, method: "DELETE" });
   };
 
   /**
@@ -344,6 +738,7 @@ export const useApi = () => {
     put,
     del,
     testConnection,
+    interceptors: apiInterceptors,
     apiBase,
     API_ENDPOINTS,
   };
@@ -2,22 +2,72 @@
  * API caching composable for improved performance
  */
 
+import { computed, reactive } from "vue";
+import { createRequestDeduper, requestKey } from "../utils/request-dedup";
+import type { HttpMethod } from "./useApi";
+import {
+  createMemoryStorage,
+  type CacheStorageBackend,
+} from "../utils/cache-storage";
+
 interface CacheEntry<T = any> {
   data: T;
   timestamp: number;
   ttl: number;
+  staleTtl: number; // Extra time stale data may still be served while revalidating
+  tags: string[];
   lastAccessed: number; // For LRU eviction
 }
 
-interface CacheOptions {
+interface SetOptions {
+  tags?: string[]; // Labels used by invalidateTag, e.g. "users" or "user:42"
+  staleTtl?: number;
+}
+
+export interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
   key?: string; // Custom cache key
   force?: boolean; // Force refresh cache
+  signal?: AbortSignal; // Detaches this caller from a shared in-flight request
+  tags?: string[];
+  // Serve expired data immediately and refresh it in the background.
+  // `true` keeps stale data for DEFAULT_STALE_TTL past its ttl.
+  staleWhileRevalidate?: boolean | number;
+  onRevalidate?: (data: any) => void; // Receives fresh data after a background refresh
+  method?: HttpMethod; // Of the underlying request, GET by default
+  headers?: Record<string, string>; // Calls with other headers are not shared
 }
 
-export const useApiCache = (maxSize: number = 100) => {
+export interface ApiCacheOptions {
+  maxSize?: number; // Maximum number of entries kept in memory
+  storage?: CacheStorageBackend; // Where entries are persisted, memory only by default
+}
+
+/**
+ * Create an isolated cache instance
+ * Most code should use useApiCache(), which returns the app-wide instance
+ */
+export const createApiCache = (options: ApiCacheOptions = {}) => {
+  const { maxSize = 100 } = options;
   const cache = new Map<string, CacheEntry>();
+  let storage = options.storage ?? createMemoryStorage();
   const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+  const DEFAULT_STALE_TTL = 30 * 60 * 1000; // 30 minutes
+
+  // Keys currently being refreshed in the background
+  const revalidatingKeys = reactive(new Set<string>());
+  const isRevalidating = computed(() => revalidatingKeys.size > 0);
+
+  // Cache misses in flight, shared so concurrent callers trigger a single
+  // request; kept per instance so server-side requests never share one
+  const inflightRequests = createRequestDeduper();
+
+  // Bumped by invalidateTag, so responses requested before an invalidation
+  // are neither cached nor shared with callers arriving after it
+  const tagGenerations = new Map<string, number>();
+
+  const generationsOf = (tags: string[] = []): number[] =>
+    tags.map((tag) => tagGenerations.get(tag) ?? 0);
 
   /**
    * Generate cache key from URL and params
@@ -27,6 +77,23 @@ export const useApiCache = (maxSize: number = 100) => {
     return `${url}:${paramString}`;
   };
 
+  /**
+   * Run a storage operation in the background; memory stays authoritative on failure
+   */
+  const persist = (operation: () => Promise<void>): void => {
+    operation().catch((error) => {
+      console.warn(`Cache storage (${storage.type}) operation failed`, error);
+    });
+  };
+
+  /**
+   * Remove an entry from memory and storage
+   */
+  const evict = (key: string): void => {
+    cache.delete(key);
+    persist(() => storage.remove(key));
+  };
+
   /**
    * Check if cache entry is valid
    */
@@ -34,6 +101,13 @@ export const useApiCache = (maxSize: number = 100) => {
     return Date.now() - entry.timestamp < entry.ttl;
   };
 
+  /**
+   * Check if cache entry has outlived its stale window and can be dropped
+   */
+  const isExpired = (entry: CacheEntry): boolean => {
+    return Date.now() - entry.timestamp >= entry.ttl + entry.staleTtl;
+  };
+
   /**
    * Get data from cache with LRU tracking
    */
@@ -45,7 +119,9 @@ export const useApiCache = (maxSize: number = 100) => {
     }
 
     if (!isValid(entry)) {
-      cache.delete(key);
+      if (isExpired(entry)) {
+        evict(key);
+      }
       return null;
     }
 
@@ -54,10 +130,29 @@ export const useApiCache = (maxSize: number = 100) => {
     return entry.data as T;
   };
 
+  /**
+   * Get data even if past its ttl, as long as it is inside the stale window
+   */
+  const getStale = <T>(key: string): T | null => {
+    const entry = cache.get(key);
+
+    if (!entry || isExpired(entry)) {
+      return null;
+    }
+
+    entry.lastAccessed = Date.now();
+    return entry.data as T;
+  };
+
   /**
    * Set data in cache with LRU eviction
    */
-  const set = <T>(key: string, data: T, ttl: number = DEFAULT_TTL): void => {
+  const set = <T>(
+    key: string,
+    data: T,
+    ttl: number = DEFAULT_TTL,
+    options: SetOptions = {}
+  ): void => {
     // Implement LRU eviction when cache is full
     if (cache.size >= maxSize && !cache.has(key)) {
       // Find least recently used entry
@@ -72,24 +167,28 @@ export const useApiCache = (maxSize: number = 100) => {
       }
 
       if (oldestKey) {
-        cache.delete(oldestKey);
+        evict(oldestKey);
       }
     }
 
     const now = Date.now();
-    cache.set(key, {
+    const entry: CacheEntry = {
       data,
       timestamp: now,
       ttl,
+      staleTtl: options.staleTtl ?? 0,
+      tags: options.tags ?? [],
       lastAccessed: now,
-    });
+    };
+    cache.set(key, entry);
+    persist(() => storage.save(key, entry));
   };
 
   /**
    * Clear cache entry
    */
   const clear = (key: string): void => {
-    cache.delete(key);
+    evict(key);
   };
 
   /**
@@ -97,6 +196,25 @@ export const useApiCache = (maxSize: number = 100) => {
    */
   const clearAll = (): void => {
     cache.clear();
+    persist(() => storage.clear());
+  };
+
+  /**
+   * Remove every entry labelled with the given tag
+   * @returns Number of entries removed
+   */
+  const invalidateTag = (tag: string): number => {
+    let removed = 0;
+    tagGenerations.set(tag, (tagGenerations.get(tag) ?? 0) + 1);
+
+    for (const [key, entry] of cache.entries()) {
+      if (entry.tags.includes(tag)) {
+        evict(key);
+        removed++;
+      }
+    }
+
+    return removed;
   };
 
   /**
@@ -104,11 +222,46 @@ export const useApiCache = (maxSize: number = 100) => {
    */
   const cachedRequest = async <T>(
     url: string,
-    requestFn: () => Promise<T>,
+    requestFn: (signal?: AbortSignal) => Promise<T>,
     options: CacheOptions = {}
   ): Promise<T> => {
-    const { ttl = DEFAULT_TTL, key, force = false } = options;
+    const {
+      ttl = DEFAULT_TTL,
+      key,
+      force = false,
+      signal,
+      tags,
+      staleWhileRevalidate = false,
+      onRevalidate,
+      method = "GET",
+      headers,
+    } = options;
     const cacheKey = key || generateKey(url);
+    const staleTtl =
+      staleWhileRevalidate === true
+        ? DEFAULT_STALE_TTL
+        : Number(staleWhileRevalidate) || 0;
+
+    // Fetch fresh data, joining an identical request already in flight
+    const fetchFresh = (subscriberSignal?: AbortSignal) => {
+      const generations = generationsOf(tags);
+
+      return inflightRequests.dedupe(
+        `${requestKey(method, cacheKey, headers)} #${generations.join(",")}`,
+        async (sharedSignal) => {
+          const data = await requestFn(sharedSignal);
+
+          // Cache the result unless one of its tags was invalidated meanwhile
+          const current = generationsOf(tags);
+          if (current.every((generation, i) => generation === generations[i])) {
+            set(cacheKey, data, ttl, { tags, staleTtl });
+          }
+
+          return data;
+        },
+        subscriberSignal
+      );
+    };
 
     // Return cached data if available and not forced refresh
     if (!force) {
@@ -116,15 +269,35 @@ export const useApiCache = (maxSize: number = 100) => {
       if (cachedData !== null) {
         return cachedData;
       }
-    }
 
-    // Fetch fresh data
-    const data = await requestFn();
+      const staleData = staleTtl > 0 ? getStale<T>(cacheKey) : null;
+      if (staleData !== null) {
+        revalidate(cacheKey, () => fetchFresh(), onRevalidate);
+        return staleData;
+      }
+    }
 
-    // Cache the result
-    set(cacheKey, data, ttl);
+    return fetchFresh(signal);
+  };
 
-    return data;
+  /**
+   * Refresh an entry in the background, keeping the stale value on failure
+   */
+  const revalidate = <T>(
+    key: string,
+    fetchFresh: () => Promise<T>,
+    onRevalidate?: (data: T) => void
+  ): void => {
+    revalidatingKeys.add(key);
+
+    fetchFresh()
+      .then((data) => onRevalidate?.(data))
+      .catch((error) => {
+        console.warn(`Background revalidation failed for key: ${key}`, error);
+      })
+      .finally(() => {
+        revalidatingKeys.delete(key);
+      });
   };
 
   /**
@@ -134,18 +307,22 @@ export const useApiCache = (maxSize: number = 100) => {
     url: string,
     options: CacheOptions & Record<string, any> = {}
   ): Promise<T> => {
-    const { ttl, key, force, ...fetchOptions } = options;
+    const { ttl, key, force, signal, ...fetchOptions } = options;
 
     return cachedRequest(
       url,
-      async () => {
-        const response = await $fetch<T>(url, fetchOptions);
+      async (sharedSignal) => {
+        const response = await $fetch<T>(url, {
+          ...fetchOptions,
+          signal: sharedSignal,
+        });
         return response;
       },
       {
         ttl,
         key,
         force,
+        signal,
       }
     );
   };
@@ -174,8 +351,8 @@ export const useApiCache = (maxSize: number = 100) => {
     let cleaned = 0;
 
     entries.forEach(([key, entry]) => {
-      if (!isValid(entry)) {
-        cache.delete(key);
+      if (isExpired(entry)) {
+        evict(key);
         cleaned++;
       }
     });
@@ -183,31 +360,66 @@ export const useApiCache = (maxSize: number = 100) => {
     return cleaned;
   };
 
+  /**
+   * Load persisted entries into memory, skipping expired ones
+   * Entries already in memory are newer and win over persisted copies
+   */
+  const hydrate = async (): Promise<number> => {
+    const persisted = await storage.load();
+    let loaded = 0;
+
+    for (const [key, entry] of persisted) {
+      if (isExpired(entry)) {
+        persist(() => storage.remove(key));
+        continue;
+      }
+
+      if (!cache.has(key) && cache.size < maxSize) {
+        cache.set(key, entry);
+        loaded++;
+      }
+    }
+
+    return loaded;
+  };
+
+  /**
+   * Switch to another storage backend and load what it has persisted
+   */
+  const setStorage = (backend: CacheStorageBackend): Promise<number> => {
+    storage = backend;
+    return hydrate();
+  };
+
+  /**
+   * Drop every entry from memory and storage, e.g. on logout
+   */
+  const purge = async (): Promise<void> => {
+    cache.clear();
+    await storage.clear();
+  };
+
   // Automatic cleanup every 10 minutes
-  if (import.meta.client) {
-    setInterval(cleanup, 10 * 60 * 1000);
-  }
+  const cleanupTimer = import.meta.client
+    ? setInterval(cleanup, 10 * 60 * 1000)
+    : undefined;
+
+  /**
+   * Stop the cleanup timer
+   */
+  const dispose = (): void => {
+    clearInterval(cleanupTimer);
+  };
 
   // Unified caching interface
   const cached = {
     request: async <T>(
       key: string,
-      requestFn: () => Promise<T>,
+      requestFn: (signal?: AbortSignal) => Promise<T>,
       options: CacheOptions = {}
     ): Promise<T> => {
-      const { ttl = DEFAULT_TTL, force = false } = options;
-
-      if (!force) {
-        const cachedData = get<T>(key);
-        if (cachedData !== null) {
-          return cachedData;
-        }
-      }
-
       try {
-        const data = await requestFn();
-        set(key, data, ttl);
-        return data;
+        return await cachedRequest(key, requestFn, { ...options, key });
       } catch (error) {
         console.error(`Cache request failed for key: ${key}`, error);
         throw error;
@@ -218,13 +430,15 @@ export const useApiCache = (maxSize: number = 100) => {
       url: string,
       options: CacheOptions & Record<string, any> = {}
     ): Promise<T> => {
-      const { ttl, key, force, ...fetchOptions } = options;
+      const { ttl, key, force, signal, ...fetchOptions } = options;
       const cacheKey = key || generateKey(url, fetchOptions);
 
-      return cached.request(cacheKey, () => $fetch<T>(url, fetchOptions), {
-        ttl,
-        force,
-      });
+      return cached.request(
+        cacheKey,
+        (sharedSignal) =>
+          $fetch<T>(url, { ...fetchOptions, signal: sharedSignal }),
+        { ttl, force, signal }
+      );
     },
   };
 
@@ -233,10 +447,45 @@ export const useApiCache = (maxSize: number = 100) => {
     set,
     clear,
     clearAll,
+    invalidateTag,
+    isRevalidating,
     cached,
     cachedRequest,
     cachedFetch,
     getStats,
     cleanup,
+    hydrate,
+    setStorage,
+    purge,
+    dispose,
+    get storageType() {
+      return storage.type;
+    },
   };
 };
+
+export type ApiCache = ReturnType<typeof createApiCache>;
+
+let sharedCache: ApiCache | null = null;
+
+/**
+ * App-wide API cache
+ * On the client every caller shares one instance; on the server each call
+ * gets its own so cached data never leaks between requests.
+ */
+export const useApiCache = (): ApiCache => {
+  if (import.meta.server) {
+    return createApiCache();
+  }
+
+  sharedCache ??= createApiCache();
+  return sharedCache;
+};
+
+/**
+ * Dispose the app-wide instance; the next useApiCache() call creates a new one
+ */
+export const resetApiCache = (): void => {
+  sharedCache?.dispose();
+  sharedCache = null;
+};
@@ -0,0 +1,151 @@
+/**
+ * Typed API client composable
+ * The endpoint table below is the single source of truth for backend routes and their payloads
+ */
+
+import type {
+  ApiEnvelope,
+  AuthUser,
+  BatchRoleChange,
+  BatchSelection,
+  BatchUserResponse,
+  CreateUserData,
+  DeletedUserResponse,
+  HealthResponse,
+  LoginCredentials,
+  LoginResponse,
+  UpdateUserData,
+  User,
+  UserListQuery,
+  UserListResponse,
+} from "../types/index";
+import {
+  authUserContract,
+  batchUserResponseContract,
+  deletedUserContract,
+  envelopeContract,
+  loginResponseContract,
+  userContract,
+  userListResponseContract,
+} from "../utils/api-contracts";
+import {
+  createApiClient,
+  defineApiSchema,
+  shape,
+  type ApiClient,
+} from "../utils/api-client";
+import { number, object } from "../utils/contracts";
+import { useApi } from "./useApi";
+
+export const API_SCHEMA = defineApiSchema({
+  auth: {
+    login: {
+      method: "POST",
+      path: "/auth/login",
+      body: shape<LoginCredentials>(),
+      response: shape<ApiEnvelope<LoginResponse>>(),
+      contract: envelopeContract(loginResponseContract),
+    },
+    logout: {
+      method: "POST",
+      path: "/auth/logout",
+      response: shape<ApiEnvelope<null>>(),
+    },
+    logoutAll: {
+      method: "POST",
+      path: "/auth/logout-all",
+      response: shape<ApiEnvelope<{ revoked: number }>>(),
+      contract: envelopeContract(object({ revoked: number() })),
+    },
+    me: {
+      method: "GET",
+      path: "/auth/me",
+      response: shape<ApiEnvelope<{ user: AuthUser }>>(),
+      contract: envelopeContract(object({ user: authUserContract })),
+    },
+  },
+  users: {
+    list: {
+      method: "GET",
+      path: "/users",
+      query: shape<UserListQuery>(),
+      response: shape<UserListResponse>(),
+      contract: userListResponseContract,
+    },
+    show: {
+      method: "GET",
+      path: "/users/:id",
+      response: shape<ApiEnvelope<User>>(),
+      contract: envelopeContract(userContract),
+    },
+    create: {
+      method: "POST",
+      path: "/users",
+      body: shape<CreateUserData>(),
+      response: shape<ApiEnvelope<User>>(),
+      contract: envelopeContract(userContract),
+    },
+    update: {
+      method: "PUT",
+      path: "/users/:id",
+      body: shape<UpdateUserData>(),
+      response: shape<ApiEnvelope<User>>(),
+      contract: envelopeContract(userContract),
+    },
+    delete: {
+      method: "DELETE",
+      path: "/users/:id",
+      response: shape<ApiEnvelope<DeletedUserResponse>>(),
+      contract: envelopeContract(deletedUserContract),
+    },
+    batchDelete: {
+      method: "POST",
+      path: "/users/batch/delete",
+      body: shape<BatchSelection>(),
+      response: shape<ApiEnvelope<BatchUserResponse>>(),
+      contract: envelopeContract(batchUserResponseContract),
+    },
+    batchRole: {
+      method: "POST",
+      path: "/users/batch/role",
+      body: shape<BatchRoleChange>(),
+      response: shape<ApiEnvelope<BatchUserResponse>>(),
+      contract: envelopeContract(batchUserResponseContract),
+    },
+    trash: {
+      method: "GET",
+      path: "/users/trash",
+      query: shape<UserListQuery>(),
+      response: shape<UserListResponse>(),
+      contract: userListResponseContract,
+    },
+    restore: {
+      method: "POST",
+      path: "/users/:id/restore",
+      response: shape<ApiEnvelope<User>>(),
+      contract: envelopeContract(userContract),
+    },
+    purge: {
+      method: "DELETE",
+      path: "/users/:id/purge",
+      response: shape<ApiEnvelope<{ id: number }>>(),
+      contract: envelopeContract(object({ id: number() })),
+    },
+  },
+  system: {
+    health: {
+      method: "GET",
+      path: "/health",
+      response: shape<HealthResponse>(),
+    },
+  },
+});
+
+export type AppApiClient = ApiClient<typeof API_SCHEMA>;
+
+/**
+ * Typed client for every endpoint in API_SCHEMA, e.g. `api.users.list({ page })`
+ */
+export const useApiClient = (): AppApiClient => {
+  return createApiClient(API_SCHEMA, useApi());
+};
@@ -8,16 +8,58 @@ import type {
   LoginResponse,
   UserRole,
 } from "../types/index";
+import { useUsersStore } from "../stores/users";
+import {
+  SESSION_CHANNEL_NAME,
+  createIdleTracker,
+  type IdleTracker,
+} from "../utils/idle-tracker";
+import { useApiCache } from "./useApiCache";
+import { useToast } from "./useToast";
+import { useUserSession } from "./useUserSession";
+
+// Warn this long before the session expires
+export const SESSION_WARNING_MS = 5 * 60 * 1000;
+
+// Stops the running expiry watch; one per app, however many useAuth() calls
+let stopExpiryWatch: (() => void) | null = null;
+
+// Events that count as the user being at the console
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+];
+
+// Time left before the idle logout while its warning is shown, null otherwise;
+// only ever set in the browser
+const idleRemaining = ref<number | null>(null);
+
+// Inactivity tracker of this tab, running while the idle watch is
+let idleTracker: IdleTracker | null = null;
+let stopIdleWatch: (() => void) | null = null;
+
+/**
+ * Format the time left as m:ss
+ */
+const formatCountdown = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
 
 export const useAuth = () => {
   const {
     user: userSession,
     loggedIn,
+    expiresAt: sessionExpiresAt,
     clear,
     fetch: refresh,
   } = useUserSession();
 
-  const user = computed(() => userSession.value as AuthUser | null);
+  const user = computed((): AuthUser | null => userSession.value);
 
   // Loading state for async operations
   const isLoading = ref(false);
@@ -33,22 +75,25 @@ export const useAuth = () => {
   /**
    * Login user with credentials
    * @param credentials - User login credentials (email and password)
-   * @returns Promise resolving to user data and token
+   * @returns Promise resolving to the signed-in user; the token stays in the server session
    */
   const login = async (
     credentials: LoginCredentials
-  ): Promise<LoginResponse> => {
+  ): Promise<Pick<LoginResponse, "user">> => {
     isLoading.value = true;
     clearError();
 
     try {
       // Use the server API which handles session setting
-      const response = await $fetch<LoginResponse>("/api/auth/login", {
-        method: "POST",
-        body: credentials,
-      });
+      const response = await $fetch<Pick<LoginResponse, "user">>(
+        "/api/auth/login",
+        {
+          method: "POST",
+          body: credentials,
+        }
+      );
 
-      // Refresh the user session to get the updated data
+      // Load the session the server just sealed into the cookie
       await refresh();
 
       return response;
@@ -98,31 +143,59 @@ export const useAuth = () => {
   };
 
   /**
-   * Logout user and clear session
+   * Logout user, revoke the API token and clear session
    * @param redirect - Whether to redirect to login page after logout (default: true)
-   * @returns Promise that resolves when logout is complete
+   * @param options.allDevices - Revoke the user's tokens on every device
+   * @returns Promise resolving to whether the server confirmed the logout
    */
-  const logout = async (redirect: boolean = true) => {
+  const logout = async (
+    redirect: boolean = true,
+    { allDevices = false }: { allDevices?: boolean } = {}
+  ): Promise<boolean> => {
     isLoading.value = true;
+    let confirmed = true;
+
     try {
-      // Use the server API for logout
+      // The server revokes the token and clears the sealed session
       await $fetch("/api/auth/logout", {
         method: "POST",
+        body: { allDevices },
       });
     } catch (error) {
       console.error("Logout error:", error);
       // Don't throw error - we still want to clear local session
+      confirmed = false;
     } finally {
-      // Always clear local session
-      await clear();
+      // Other tabs share the session cookie, so they are signed out too
+      idleTracker?.announceLogout();
 
-      // Optional redirect for flexibility
-      if (redirect) {
-        await navigateTo("/login");
-      }
+      // Always clear local session
+      await endSession(redirect);
 
       isLoading.value = false;
     }
+
+    return confirmed;
+  };
+
+  /**
+   * Forget the signed-in user in this tab
+   * @param redirect - Whether to redirect to login page afterwards
+   */
+  const endSession = async (redirect: boolean): Promise<void> => {
+    await clear();
+
+    // Cached responses, loaded users and queued mutations belong to the
+    // previous user
+    await Promise.all([
+      useApiCache().purge(),
+      useUsersStore().clearSessionData(),
+    ]).catch((error) => console.error("Logout cleanup error:", error));
+
+    // Optional redirect for flexibility
+    if (redirect) {
+      await navigateTo("/login");
+    }
   };
 
   /**
@@ -187,9 +260,182 @@ export const useAuth = () => {
     }
   };
 
+  /**
+   * Extend the session by swapping its API token for a new one
+   * @returns Promise resolving to whether the session was extended
+   */
+  const extendSession = async (): Promise<boolean> => {
+    try {
+      await $fetch("/api/auth/refresh", { method: "POST" });
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error("Session extend error:", error);
+      return false;
+    }
+  };
+
+  /**
+   * Warn with a countdown toast before the session expires
+   * The toast offers to extend the session; a new expiry reschedules it.
+   * @returns Function stopping the watch
+   */
+  const watchSessionExpiry = (): (() => void) => {
+    if (stopExpiryWatch) {
+      return stopExpiryWatch;
+    }
+
+    const toast = useToast();
+    let warningTimer: ReturnType<typeof setTimeout> | undefined;
+    let countdownTimer: ReturnType<typeof setInterval> | undefined;
+    let toastId: string | null = null;
+
+    const clearWarning = () => {
+      clearTimeout(warningTimer);
+      clearInterval(countdownTimer);
+      if (toastId) toast.removeToast(toastId);
+      toastId = null;
+    };
+
+    const handleExtend = async () => {
+      clearWarning();
+      if (!(await extendSession())) {
+        toast.error("Your session could not be extended.");
+      }
+    };
+
+    const showWarning = (expiresAt: number) => {
+      const message = () =>
+        `Your session expires in ${formatCountdown(expiresAt - Date.now())}.`;
+
+      toastId = toast.warning(message(), {
+        title: "Session expiring",
+        persistent: true,
+        actionText: "Extend session",
+        onAction: handleExtend,
+      });
+
+      countdownTimer = setInterval(() => {
+        if (Date.now() >= expiresAt) {
+          // Past this point the next request asks the user to sign in again
+          clearWarning();
+        } else if (toastId) {
+          toast.updateToast(toastId, { message: message() });
+        }
+      }, 1000);
+    };
+
+    const stopWatch = watch(
+      sessionExpiresAt,
+      (value) => {
+        clearWarning();
+        if (!value) return;
+
+        const expiresAt = Date.parse(value);
+        warningTimer = setTimeout(
+          () => showWarning(expiresAt),
+          Math.max(0, expiresAt - SESSION_WARNING_MS - Date.now())
+        );
+      },
+      { immediate: true }
+    );
+
+    stopExpiryWatch = () => {
+      stopWatch();
+      clearWarning();
+      stopExpiryWatch = null;
+    };
+
+    return stopExpiryWatch;
+  };
+
+  /**
+   * Keep the user signed in after the idle warning, in every tab
+   */
+  const stayActive = (): void => {
+    idleRemaining.value = null;
+    idleTracker?.recordActivity();
+  };
+
+  /**
+   * Sign out after runtimeConfig.public.idleTimeout without activity
+   * Mouse, keyboard and the tab becoming visible count as activity. Tabs
+   * share activity and logouts through a BroadcastChannel.
+   * @returns Function stopping the watch
+   */
+  const watchIdleActivity = (): (() => void) => {
+    if (stopIdleWatch) {
+      return stopIdleWatch;
+    }
+
+    const config = useRuntimeConfig();
+    const timeout = Number(config.public.idleTimeout) || 0;
+    const warning = Math.min(Number(config.public.idleWarning) || 0, timeout);
+    const toast = useToast();
+
+    idleTracker = createIdleTracker({
+      timeout,
+      channel:
+        typeof BroadcastChannel !== "undefined"
+          ? new BroadcastChannel(SESSION_CHANNEL_NAME)
+          : null,
+      onTick: (remaining) => {
+        idleRemaining.value =
+          loggedIn.value && remaining <= warning ? remaining : null;
+      },
+      onTimeout: async () => {
+        idleRemaining.value = null;
+        if (!loggedIn.value) return;
+
+        await logout();
+        toast.info("You were signed out after a period of inactivity.", {
+          persistent: true,
+        });
+      },
+      onRemoteLogout: () => {
+        idleRemaining.value = null;
+        if (loggedIn.value) endSession(true);
+      },
+    });
+
+    // Once the warning shows, only "Stay signed in" keeps the session
+    const handleActivity = () => {
+      if (idleRemaining.value === null) idleTracker?.recordActivity();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") handleActivity();
+    };
+
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, handleActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    // Every login starts a new idle period
+    const stopWatch = watch(loggedIn, (value) => {
+      if (value) idleTracker?.reset();
+    });
+
+    stopIdleWatch = () => {
+      stopWatch();
+      ACTIVITY_EVENTS.forEach((name) =>
+        window.removeEventListener(name, handleActivity)
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      idleTracker?.stop();
+      idleTracker = null;
+      idleRemaining.value = null;
+      stopIdleWatch = null;
+    };
+
+    return stopIdleWatch;
+  };
+
   return {
     // State
     user,
+    sessionExpiresAt,
+    idleRemaining: readonly(idleRemaining),
     loggedIn: readonly(loggedIn),
     isLoading: readonly(isLoading),
     error: readonly(error),
@@ -198,6 +444,10 @@ export const useAuth = () => {
     login,
     logout,
     refreshSession,
+    extendSession,
+    watchSessionExpiry,
+    stayActive,
+    watchIdleActivity,
     clearError,
 
     // Role Utilities
@@ -0,0 +1,182 @@
+/**
+ * Create-user form logic shared by CreateUserModal and the create page
+ * Holds the form data, validates fields with the rules of StoreUserRequest,
+ * rates the password and submits through the users store
+ */
+
+import { computed, ref } from "vue";
+import { useUsersStore } from "../stores/users";
+import { USER_ROLES, type CreateUserData, type UserRole } from "../types/index";
+import {
+  generateSecurePassword,
+  validatePasswordStrength,
+} from "../utils/security";
+import { useFormErrorHandler } from "./useFormErrorHandler";
+import { useFormValidation, type ValidationRules } from "./useFormValidation";
+
+export type CreateUserField = keyof CreateUserData;
+
+export const CREATE_USER_LABELS: Record<CreateUserField, string> = {
+  name: "First Name",
+  last_name: "Last Name",
+  email: "Email",
+  password: "Password",
+  role: "Role",
+};
+
+// Same rules as StoreUserRequest, so a form that passes here is accepted
+// unless the server finds a conflict such as an existing email; the
+// confirmation it requires is filled in by submit()
+const NAME_PATTERN = /^(?!.*\s{2,})(?!.*[-']{2,})[a-zA-ZÀ-ÿñÑ\s\-']+$/;
+
+export const CREATE_USER_RULES: ValidationRules = {
+  name: {
+    required: true,
+    minLength: 2,
+    maxLength: 255,
+    pattern: NAME_PATTERN,
+  },
+  last_name: {
+    required: true,
+    minLength: 2,
+    maxLength: 255,
+    pattern: NAME_PATTERN,
+  },
+  email: { required: true, email: true, maxLength: 255 },
+  password: {
+    required: true,
+    maxLength: 255,
+    custom: (value) =>
+      value ? validatePasswordStrength(value).errors[0] ?? null : null,
+  },
+  role: {
+    required: true,
+    custom: (value) =>
+      !value || Object.values(USER_ROLES).includes(value)
+        ? null
+        : "Role must be administrator or reviewer",
+  },
+};
+
+const ALL_FIELDS = Object.keys(CREATE_USER_LABELS) as CreateUserField[];
+
+// Checks made by validatePasswordStrength, one point each
+const PASSWORD_CHECKS = 5;
+
+const emptyForm = (): CreateUserData => ({
+  name: "",
+  last_name: "",
+  email: "",
+  password: "",
+  role: "" as UserRole,
+});
+
+export const useCreateUserForm = () => {
+  const usersStore = useUsersStore();
+  const { validateField } = useFormValidation();
+  const {
+    formState,
+    handleFormSubmit,
+    clearErrors: clearServerErrors,
+    clearFieldError,
+    getFieldError,
+  } = useFormErrorHandler();
+
+  const formData = ref<CreateUserData>(emptyForm());
+  const clientErrors = ref<Partial<Record<CreateUserField, string[]>>>({});
+
+  // Strength of the password as typed, for the meter
+  const passwordStrength = computed(() => {
+    const { isValid, errors } = validatePasswordStrength(
+      formData.value.password
+    );
+    return {
+      isValid,
+      errors,
+      score: formData.value.password ? PASSWORD_CHECKS - errors.length : 0,
+      max: PASSWORD_CHECKS,
+    };
+  });
+
+  /**
+   * Errors of a field: client-side ones first, then the server's
+   */
+  const fieldErrors = (field: CreateUserField): string[] => [
+    ...(clientErrors.value[field] ?? []),
+    ...getFieldError(field),
+  ];
+
+  const hasFieldError = (field: CreateUserField): boolean =>
+    fieldErrors(field).length > 0;
+
+  /**
+   * Validate some fields, e.g. those of one wizard step
+   * @returns Whether all of them are valid
+   */
+  const validateFields = (fields: CreateUserField[] = ALL_FIELDS): boolean => {
+    const errors = { ...clientErrors.value };
+
+    for (const field of fields) {
+      const messages = validateField(
+        CREATE_USER_LABELS[field],
+        formData.value[field],
+        CREATE_USER_RULES[field]!
+      );
+      if (messages.length > 0) {
+        errors[field] = messages;
+      } else {
+        delete errors[field];
+      }
+      clearFieldError(field);
+    }
+
+    clientErrors.value = errors;
+    return fields.every((field) => !errors[field]);
+  };
+
+  /**
+   * Fill in a random password that meets every strength rule
+   */
+  const generatePassword = (): string => {
+    formData.value.password = generateSecurePassword();
+    delete clientErrors.value.password;
+    clearFieldError("password");
+    return formData.value.password;
+  };
+
+  const reset = () => {
+    formData.value = emptyForm();
+    clientErrors.value = {};
+    clearServerErrors();
+  };
+
+  /**
+   * Create the user; server validation errors end up in fieldErrors
+   */
+  const submit = () => {
+    // The form has no confirmation field, since a generated password has
+    // nothing to be typed against; StoreUserRequest still requires one
+    const data: CreateUserData & { password_confirmation: string } = {
+      ...formData.value,
+      password_confirmation: formData.value.password,
+    };
+
+    return handleFormSubmit(() => usersStore.createUser(data), {
+      successMessage: "User created successfully",
+      successTitle: "Success",
+      clearOnSuccess: true,
+    });
+  };
+
+  return {
+    formData,
+    formState,
+    passwordStrength,
+    fieldErrors,
+    hasFieldError,
+    validateFields,
+    generatePassword,
+    reset,
+    submit,
+  };
+};
@@ -127,6 +127,8 @@ export const useErrorHandler = () => {
         return "Access Denied";
       case 404:
         return "Not Found";
+      case 408:
+        return "Request Timeout";
       case 422:
         return "Validation Error";
       case 429:
@@ -3,7 +3,9 @@
  * Provides reusable validation logic for forms
  */
 
-interface ValidationRule {
+import { readonly, ref } from "vue";
+
+export interface ValidationRule {
   required?: boolean;
   minLength?: number;
   maxLength?: number;
@@ -12,7 +14,7 @@ interface ValidationRule {
   custom?: (value: any) => string | null;
 }
 
-interface ValidationRules {
+export interface ValidationRules {
   [key: string]: ValidationRule;
 }
 
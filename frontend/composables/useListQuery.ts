@@ -0,0 +1,115 @@
+/**
+ * List state synced with the route query string
+ * Page, filters and sort live in the URL, so reloads, shared links and
+ * back/forward navigation all restore the same view
+ */
+
+import { computed, type ComputedRef } from "vue";
+import type { LocationQuery, LocationQueryRaw } from "vue-router";
+
+export type ListQueryValue = string | number;
+
+/** Allowed values per key; anything else in the URL falls back to the default */
+export type ListQueryAllowed<T extends Record<string, ListQueryValue>> = {
+  [K in keyof T]?: readonly T[K][];
+};
+
+export interface ListQueryUpdateOptions {
+  replace?: boolean; // Rewrite the current history entry instead of adding one
+}
+
+/**
+ * Read list state from a route query
+ * Numeric keys accept positive integers only; missing or invalid values use the defaults.
+ */
+export const parseListQuery = <T extends Record<string, ListQueryValue>>(
+  query: LocationQuery,
+  defaults: T,
+  allowed: ListQueryAllowed<T> = {}
+): T => {
+  const state = { ...defaults };
+
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const raw = query[key];
+    const text = Array.isArray(raw) ? raw[0] : raw;
+    if (text === null || text === undefined) continue;
+
+    let value: ListQueryValue = text;
+    if (typeof defaults[key] === "number") {
+      value = Number(text);
+      if (!Number.isInteger(value) || value < 1) continue;
+    }
+
+    const values = allowed[key];
+    if (values && !values.includes(value as T[typeof key])) continue;
+
+    state[key] = value as T[typeof key];
+  }
+
+  return state;
+};
+
+/**
+ * Write list state into a route query
+ * Values equal to their default are left out to keep URLs short; keys that do
+ * not belong to the list are preserved.
+ */
+export const serializeListQuery = <T extends Record<string, ListQueryValue>>(
+  state: T,
+  defaults: T,
+  query: LocationQuery = {}
+): LocationQueryRaw => {
+  const result: LocationQueryRaw = { ...query };
+
+  for (const key of Object.keys(defaults)) {
+    delete result[key];
+    const value = state[key];
+    if (value !== defaults[key] && value !== "") {
+      result[key] = String(value);
+    }
+  }
+
+  return result;
+};
+
+export const useListQuery = <T extends Record<string, ListQueryValue>>(
+  defaults: T,
+  allowed: ListQueryAllowed<T> = {}
+): {
+  state: ComputedRef<T>;
+  update: (patch: Partial<T>, options?: ListQueryUpdateOptions) => Promise<void>;
+  reset: (options?: ListQueryUpdateOptions) => Promise<void>;
+} => {
+  const route = useRoute();
+  const router = useRouter();
+
+  const state = computed(() => parseListQuery(route.query, defaults, allowed));
+
+  /**
+   * Merge a patch into the list state and navigate to it
+   * Navigations that would not change the URL are skipped, so no duplicate
+   * history entries are created.
+   */
+  const update = async (
+    patch: Partial<T>,
+    { replace = false }: ListQueryUpdateOptions = {}
+  ): Promise<void> => {
+    const query = serializeListQuery(
+      { ...state.value, ...patch },
+      defaults,
+      route.query
+    );
+    const target = router.resolve({ query });
+    if (target.fullPath === route.fullPath) return;
+
+    await (replace ? router.replace(target) : router.push(target));
+  };
+
+  /**
+   * Go back to the default list state
+   */
+  const reset = (options?: ListQueryUpdateOptions): Promise<void> =>
+    update({ ...defaults }, options);
+
+  return { state, update, reset };
+};
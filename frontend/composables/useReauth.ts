@@ -0,0 +1,60 @@
+/**
+ * Re-authentication composable
+ * Requests rejected with 401 wait here while the user signs in again in the
+ * re-login modal, then are retried instead of losing the user's work
+ */
+import { readonly, ref } from "vue";
+
+// Only ever set in the browser, so one module-level flag is safe
+const required = ref(false);
+
+// Requests waiting for the outcome of the re-login
+let waiting: ((signedIn: boolean) => void)[] = [];
+
+// Mounted re-login modals; without one nobody could answer the request
+let handlers = 0;
+
+/**
+ * Whether a rejected request can wait for the user to sign in again
+ */
+export const canReauthenticate = (): boolean => handlers > 0;
+
+/**
+ * Ask the user to sign in again
+ * @returns Promise resolving to true once signed in, false if they gave up
+ */
+export const waitForReauthentication = (): Promise<boolean> => {
+  required.value = true;
+  return new Promise((resolve) => waiting.push(resolve));
+};
+
+/**
+ * Finish the re-login and release every waiting request
+ */
+const settle = (signedIn: boolean): void => {
+  const resolvers = waiting;
+  waiting = [];
+  required.value = false;
+  resolvers.forEach((resolve) => resolve(signedIn));
+};
+
+export const useReauth = () => {
+  /**
+   * Register a re-login modal while it is mounted
+   * @returns Function unregistering it; the last one gives up waiting requests
+   */
+  const registerHandler = (): (() => void) => {
+    handlers++;
+
+    return () => {
+      handlers--;
+      if (handlers === 0) settle(false);
+    };
+  };
+
+  return {
+    required: readonly(required),
+    registerHandler,
+    settle,
+  };
+};
@@ -2,6 +2,8 @@
  * Service container for dependency injection
  * Provides centralized access to all application services
  */
+import { useApi } from "./useApi";
+import { useApiCache } from "./useApiCache";
 
 export interface ServiceContainer {
   apiService: ReturnType<typeof useApi>;
@@ -14,7 +16,7 @@ export interface ServiceContainer {
  */
 const createServiceContainer = (): ServiceContainer => ({
   apiService: useApi(),
-  cacheService: useApiCache(),
+  cacheService: useApiCache(), // App-wide singleton on the client
   logger: useLogger("Services"),
 });
 
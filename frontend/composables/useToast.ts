@@ -78,6 +78,13 @@ export const useToast = () => {
     }
   };
 
+  // Update a toast that is still shown
+  const updateToast = (id: string, options: Partial<ToastOptions>) => {
+    if (toastContainer) {
+      toastContainer.updateToast(id, options);
+    }
+  };
+
   // Clear all toasts
   const clearToasts = () => {
     if (toastContainer) {
@@ -92,6 +99,7 @@ export const useToast = () => {
     error,
     warning,
     info,
+    updateToast,
     removeToast,
     clearToasts,
   };
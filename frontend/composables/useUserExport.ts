@@ -0,0 +1,96 @@
+/**
+ * User list export composable
+ * Fetches every user matching the list query in chunks, reporting progress,
+ * and downloads the result as CSV or XLSX
+ */
+
+import { ref } from "vue";
+import type { TableColumn, User, UserListQuery } from "../types/index";
+import { downloadBlob } from "../utils/download";
+import {
+  createExportWriter,
+  type ExportFormat,
+} from "../utils/user-export";
+import { isAbortError } from "./useApi";
+import { useApiClient } from "./useApiClient";
+
+// Largest page IndexUserRequest allows
+export const EXPORT_CHUNK_SIZE = 100;
+
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+export const useUserExport = () => {
+  const exporting = ref(false);
+  const progress = ref<ExportProgress>({ loaded: 0, total: 0 });
+  const error = ref<string | null>(null);
+
+  let controller: AbortController | null = null;
+
+  /**
+   * Export all users matching the query, not only the page on screen
+   * @returns Whether a file was downloaded; false when cancelled or failed
+   */
+  const exportUsers = async ({
+    format,
+    columns,
+    query,
+  }: {
+    format: ExportFormat;
+    columns: TableColumn<User>[];
+    query: Omit<UserListQuery, "page" | "per_page">;
+  }): Promise<boolean> => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+
+    exporting.value = true;
+    progress.value = { loaded: 0, total: 0 };
+    error.value = null;
+
+    try {
+      const api = useApiClient();
+      const writer = createExportWriter(format, columns);
+
+      for (let page = 1, lastPage = 1; page <= lastPage; page++) {
+        const response = await api.users.list(
+          { ...query, page, per_page: EXPORT_CHUNK_SIZE },
+          { signal: current.signal }
+        );
+
+        writer.write(response.data);
+        lastPage = response.meta.last_page;
+        progress.value = {
+          loaded: progress.value.loaded + response.data.length,
+          total: response.meta.total,
+        };
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(writer.finish(), `users-${date}.${format}`);
+      return true;
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        error.value = "Failed to export users. Please try again.";
+        console.error("Export users error:", err);
+      }
+      return false;
+    } finally {
+      if (controller === current) {
+        controller = null;
+        exporting.value = false;
+      }
+    }
+  };
+
+  /**
+   * Stop a running export; nothing is downloaded
+   */
+  const cancel = () => {
+    controller?.abort();
+  };
+
+  return { exporting, progress, error, exportUsers, cancel };
+};
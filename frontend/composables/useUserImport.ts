@@ -0,0 +1,182 @@
+/**
+ * CSV import wizard state
+ * Steps: upload a file, map its columns, preview the validated rows, then
+ * create the valid users in small batches and report the failures
+ */
+
+import { computed, ref, shallowRef } from "vue";
+import { useUsersStore } from "../stores/users";
+import type { CreateUserData } from "../types/index";
+import { downloadBlob } from "../utils/download";
+import {
+  buildImportRows,
+  createFailureReport,
+  guessColumnMapping,
+  isValidImportRow,
+  parseCsv,
+  type ColumnMapping,
+  type ImportFailure,
+  type ImportRow,
+} from "../utils/user-import";
+import { ValidationError } from "./useApi";
+import { useApiClient } from "./useApiClient";
+
+export type ImportStep = "upload" | "map" | "preview" | "submit" | "done";
+
+// Users created concurrently; each one also sends a credentials email
+export const IMPORT_BATCH_SIZE = 5;
+
+/**
+ * Reason a create request failed, preferring the field errors of a 422
+ */
+const failureReason = (error: any): string => {
+  if (error instanceof ValidationError) {
+    const messages = Object.values(error.errors).flat();
+    if (messages.length > 0) return messages.join(" ");
+  }
+  return error?.message || "Failed to create user";
+};
+
+export const useUserImport = () => {
+  const step = ref<ImportStep>("upload");
+  const fileName = ref("");
+  const headers = ref<string[]>([]);
+  // Records can number in the thousands and are never edited in place
+  const records = shallowRef<string[][]>([]);
+  const mapping = ref<ColumnMapping>(guessColumnMapping([]));
+  const error = ref<string | null>(null);
+
+  const progress = ref({ done: 0, total: 0 });
+  const createdCount = ref(0);
+  const failures = ref<ImportFailure[]>([]);
+
+  const rows = computed<ImportRow[]>(() =>
+    buildImportRows(records.value, mapping.value)
+  );
+  const validRows = computed(() => rows.value.filter(isValidImportRow));
+  const invalidRows = computed(() =>
+    rows.value.filter((row) => !isValidImportRow(row))
+  );
+
+  /**
+   * Read a CSV file; the first record is the header
+   */
+  const loadFile = async (file: File): Promise<boolean> => {
+    error.value = null;
+
+    const [header, ...data] = parseCsv(await file.text());
+    if (!header || data.length === 0) {
+      error.value =
+        "The file has no users. Include a header row and at least one user.";
+      return false;
+    }
+
+    fileName.value = file.name;
+    headers.value = header.map((name) => name.trim());
+    records.value = data;
+    mapping.value = guessColumnMapping(headers.value);
+    step.value = "map";
+    return true;
+  };
+
+  /**
+   * Create every valid row; rows skipped by validation are reported as well
+   */
+  const submit = async () => {
+    const api = useApiClient();
+    const pending = validRows.value;
+
+    step.value = "submit";
+    progress.value = { done: 0, total: pending.length };
+    createdCount.value = 0;
+    failures.value = invalidRows.value.map((row) => ({
+      line: row.line,
+      email: row.data.email,
+      reason: `Skipped: ${Object.values(row.errors).flat().join(" ")}`,
+    }));
+
+    for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+      const batch = pending.slice(i, i + IMPORT_BATCH_SIZE);
+      const results = await Promise.allSettled(
+        batch.map(({ data }) => {
+          // StoreUserRequest asks for a confirmation, which a file cannot give
+          const body: CreateUserData & { password_confirmation: string } = {
+            ...data,
+            password_confirmation: data.password,
+          };
+          return api.users.create(body);
+        })
+      );
+
+      results.forEach((result, index) => {
+        const row = batch[index]!;
+        if (result.status === "fulfilled") {
+          createdCount.value++;
+        } else {
+          failures.value.push({
+            line: row.line,
+            email: row.data.email,
+            reason: failureReason(result.reason),
+          });
+        }
+      });
+      progress.value = { ...progress.value, done: i + batch.length };
+    }
+
+    failures.value.sort((a, b) => a.line - b.line);
+    step.value = "done";
+
+    if (createdCount.value > 0) {
+      const usersStore = useUsersStore();
+      usersStore.invalidateUserCache();
+      try {
+        await usersStore.refreshUsers();
+      } catch (err) {
+        console.error("Failed to reload users after import:", err);
+      }
+    }
+  };
+
+  /**
+   * Download the rows that were not imported as CSV
+   */
+  const downloadReport = () => {
+    downloadBlob(
+      createFailureReport(failures.value),
+      `${fileName.value.replace(/\.csv$/i, "")}-failures.csv`
+    );
+  };
+
+  /**
+   * Start over with a new file
+   */
+  const reset = () => {
+    step.value = "upload";
+    fileName.value = "";
+    headers.value = [];
+    records.value = [];
+    mapping.value = guessColumnMapping([]);
+    error.value = null;
+    progress.value = { done: 0, total: 0 };
+    createdCount.value = 0;
+    failures.value = [];
+  };
+
+  return {
+    step,
+    fileName,
+    headers,
+    mapping,
+    rows,
+    validRows,
+    invalidRows,
+    error,
+    progress,
+    createdCount,
+    failures,
+    loadFile,
+    submit,
+    downloadReport,
+    reset,
+  };
+};
@@ -1,21 +1,54 @@
+/**
+ * User session composable
+ * Reads the signed-in user from the sealed session cookie through
+ * /api/auth/session; the Sanctum token itself stays on the server
+ */
+import { computed } from "vue";
+import type { AuthUser, UserSession } from "../types/index";
+
+/** Session data the server shares with the app; the token stays behind */
+export type SessionData = Partial<Omit<UserSession, "token">>;
+
 export const useUserSession = () => {
-  // Simple reactive state for user session
-  const user = ref(null);
+  // Same state keys as nuxt-auth-utils, so both composables see one session
+  const session = useState<SessionData | null>("nuxt-session", () => null);
+  const ready = useState<boolean>("nuxt-auth-ready", () => false);
+
+  const user = computed(() => session.value?.user ?? null);
   const loggedIn = computed(() => !!user.value);
+  const expiresAt = computed(() => session.value?.expiresAt ?? null);
 
-  const clear = async () => {
-    user.value = null;
-  };
+  /**
+   * Load the session from the server
+   * During SSR the request's cookies are forwarded, so the first render
+   * already knows the user.
+   */
+  const fetch = async (): Promise<AuthUser | null> => {
+    session.value = await useRequestFetch()<SessionData>("/api/auth/session", {
+      headers: { Accept: "application/json" },
+      retry: false,
+    }).catch(() => null);
+    ready.value = true;
 
-  const fetch = async () => {
-    // This would normally fetch user data from the server
-    // For now, we'll just return the current user
     return user.value;
   };
 
+  /**
+   * Forget the session locally and drop the session cookie
+   */
+  const clear = async (): Promise<void> => {
+    await useRequestFetch()("/api/_auth/session", { method: "DELETE" }).catch(
+      (error: unknown) => console.warn("Failed to clear session cookie:", error)
+    );
+    session.value = null;
+  };
+
   return {
+    session,
     user,
     loggedIn,
+    expiresAt,
+    ready,
     clear,
     fetch,
   };
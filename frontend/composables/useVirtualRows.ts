@@ -0,0 +1,99 @@
+/**
+ * Virtual scrolling for fixed-height rows
+ * Only the rows inside the scroll viewport (plus a small overscan) are rendered;
+ * spacers above and below keep the scrollbar size of the full list
+ */
+
+import { computed, ref, watch, type ComputedRef, type Ref } from "vue";
+
+export interface VirtualWindow {
+  start: number; // Index of the first rendered row
+  end: number; // Index after the last rendered row
+  paddingTop: number; // Height of the rows skipped above, in px
+  paddingBottom: number; // Height of the rows skipped below, in px
+}
+
+/**
+ * Rows to render for a scroll position
+ */
+export const computeVirtualWindow = ({
+  scrollTop,
+  viewportHeight,
+  rowHeight,
+  total,
+  overscan = 5,
+}: {
+  scrollTop: number;
+  viewportHeight: number;
+  rowHeight: number;
+  total: number;
+  overscan?: number;
+}): VirtualWindow => {
+  const first = Math.floor(Math.max(scrollTop, 0) / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight);
+
+  const start = Math.min(Math.max(first - overscan, 0), total);
+  const end = Math.min(first + visible + overscan, total);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (total - end) * rowHeight,
+  };
+};
+
+export const useVirtualRows = <T>(
+  items: () => T[],
+  { rowHeight, overscan }: { rowHeight: number; overscan?: number }
+): {
+  container: Ref<HTMLElement | null>;
+  range: ComputedRef<VirtualWindow>;
+  rows: ComputedRef<T[]>;
+  onScroll: () => void;
+  scrollToTop: () => void;
+} => {
+  const container = ref<HTMLElement | null>(null);
+  const scrollTop = ref(0);
+  const viewportHeight = ref(0);
+
+  const measure = () => {
+    if (!container.value) return;
+    scrollTop.value = container.value.scrollTop;
+    viewportHeight.value = container.value.clientHeight;
+  };
+
+  const range = computed(() =>
+    computeVirtualWindow({
+      scrollTop: scrollTop.value,
+      viewportHeight: viewportHeight.value,
+      rowHeight,
+      total: items().length,
+      overscan,
+    })
+  );
+
+  const rows = computed(() =>
+    items().slice(range.value.start, range.value.end)
+  );
+
+  const scrollToTop = () => {
+    if (container.value) container.value.scrollTop = 0;
+    scrollTop.value = 0;
+  };
+
+  // Measure whenever the container is (re)rendered; the viewport also changes
+  // with the window size, not only on scroll
+  watch(container, (element, _previous, onCleanup) => {
+    if (!element) return;
+    measure();
+
+    if (typeof ResizeObserver !== "undefined") {
+      const resizeObserver = new ResizeObserver(measure);
+      resizeObserver.observe(element);
+      onCleanup(() => resizeObserver.disconnect());
+    }
+  });
+
+  return { container, range, rows, onScroll: measure, scrollToTop };
+};
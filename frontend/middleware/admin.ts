@@ -3,7 +3,7 @@
  * Ensures user has administrator role before accessing admin-only routes
  */
 export default defineNuxtRouteMiddleware((to) => {
-  const { loggedIn, user: session } = useUserSession();
+  const { loggedIn, user } = useUserSession();
 
   // First check if user is authenticated
   if (!loggedIn.value) {
@@ -11,11 +11,7 @@ export default defineNuxtRouteMiddleware((to) => {
   }
 
   // Check if user has administrator role
-  if (
-    !session.value ||
-    !("user" in session.value) ||
-    (session.value as any).user.role !== "administrator"
-  ) {
+  if (user.value?.role !== "administrator") {
     throw createError({
       statusCode: 403,
       statusMessage: "Access denied. Administrator role required.",
@@ -120,10 +120,22 @@ export default defineNuxtConfig({
     // Public keys (exposed to client-side)
     public: {
       apiBase: process.env.NUXT_PUBLIC_API_BASE,
+      // Send API requests through the Nuxt server proxy (server/api/backend)
+      apiProxy: process.env.NUXT_PUBLIC_API_PROXY !== "false",
       appName: process.env.NUXT_PUBLIC_APP_NAME || CONFIG.APP_NAME,
       // Security configuration
       enableCsrf: process.env.NUXT_PUBLIC_ENABLE_CSRF !== "false",
       apiTimeout: parseInt(process.env.NUXT_PUBLIC_API_TIMEOUT || "10000"),
+      apiRetryAttempts: parseInt(process.env.NUXT_PUBLIC_API_RETRY_ATTEMPTS || "3"),
+      apiRetryDelay: parseInt(process.env.NUXT_PUBLIC_API_RETRY_DELAY || "1000"),
+      // API cache persistence: "memory", "session" or "indexeddb"
+      apiCacheStorage: process.env.NUXT_PUBLIC_API_CACHE_STORAGE || "memory",
+      // Queue user mutations in IndexedDB while offline and replay them later
+      offlineMutations: process.env.NUXT_PUBLIC_OFFLINE_MUTATIONS === "true",
+      // Sign out after this long without activity in any tab (0 disables it)
+      idleTimeout: parseInt(process.env.NUXT_PUBLIC_IDLE_TIMEOUT || "900000"),
+      // How long before the idle logout the warning is shown
+      idleWarning: parseInt(process.env.NUXT_PUBLIC_IDLE_WARNING || "60000"),
     },
   },
 
@@ -198,27 +210,6 @@ export default defineNuxtConfig({
     },
   },
 
-  // Nitro configuration for API proxy and CORS
-  nitro: {
-    devProxy: {
-      "/api": {
-        target: process.env.NUXT_PUBLIC_API_BASE,
-        changeOrigin: true,
-        prependPath: true,
-        headers: {
-          "Access-Control-Allow-Origin":
-            process.env.NODE_ENV === "production"
-              ? process.env.NUXT_PUBLIC_FRONTEND_URL || "https://yourdomain.com"
-              : "*",
-          "Access-Control-Allow-Methods": "GET,HEAD,PUT,PATCH,POST,DELETE",
-          "Access-Control-Allow-Headers":
-            "Content-Type, Authorization, X-Requested-With, X-CSRF-TOKEN",
-          "Access-Control-Allow-Credentials": "true",
-        },
-      },
-    },
-  },
-
   // Configure auto-imports for better TypeScript support
   imports: {
     dirs: ["composables", "stores", "utils"],
@@ -1,20 +1,30 @@
+import { resolveApiBase } from "../composables/useApi";
 import { useErrorHandler } from "../composables/useErrorHandler";
+import {
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+  type ApiHttpMethod,
+  type ApiRequestContext,
+} from "../utils/api-interceptors";
 
 /**
  * Client-side API configuration plugin
- * Sets up global request/response interceptors and error handling
+ * Provides a $api fetch instance that runs the same interceptor chain as useApi
  */
 export default defineNuxtPlugin(() => {
   const config = useRuntimeConfig();
-  const apiBase = config.public.apiBase as string;
+  const apiBase = resolveApiBase(config.public);
 
-  // Configure global $fetch defaults
-  $fetch.create({
+  // Interceptor context for each in-flight request, keyed by its fetch options
+  const contexts = new WeakMap<object, ApiRequestContext>();
+
+  const api = $fetch.create({
     baseURL: apiBase,
     credentials: "include",
 
     // Request interceptor
-    onRequest({ request, options }) {
+    async onRequest({ request, options }) {
       // Add default headers
       const headers: Record<string, string> = {
         Accept: "application/json",
@@ -49,17 +59,33 @@ export default defineNuxtPlugin(() => {
         }
       }
 
-      options.headers = headers as any;
-      console.log(`[API] ${method || "GET"} ${request}`);
+      const context = await runRequestInterceptors({
+        endpoint: String(request),
+        method: (method || "GET") as ApiHttpMethod,
+        headers,
+        body: options.body,
+        attempt: 1,
+        meta: {},
+      });
+      contexts.set(options, context);
+
+      options.headers = context.headers as any;
+      options.body = context.body as any;
+      console.log(`[API] ${context.method} ${request}`);
     },
 
     // Response interceptor
-    onResponse({ response }) {
+    async onResponse({ response, options }) {
       console.log(`[API] Response ${response.status} ${response.url}`);
+
+      const context = contexts.get(options);
+      if (context && response.ok) {
+        response._data = await runResponseInterceptors(response._data, context);
+      }
     },
 
     // Error interceptor
-    onResponseError({ response, request }) {
+    async onResponseError({ response, request, options }) {
       console.error(`[API] Error ${response.status} ${request}`);
 
       // Create standardized error object
@@ -104,7 +130,14 @@ export default defineNuxtPlugin(() => {
       }
 
       // Re-throw the error for component handling
-      throw apiError;
+      const context = contexts.get(options);
+      throw context ? await runErrorInterceptors(apiError, context) : apiError;
     },
   });
+
+  return {
+    provide: {
+      api,
+    },
+  };
 });
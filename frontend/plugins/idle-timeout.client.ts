@@ -0,0 +1,12 @@
+/**
+ * Idle timeout plugin
+ * Starts tracking inactivity, and listening for logouts in other tabs, once
+ * the app is mounted
+ */
+import { useAuth } from "../composables/useAuth";
+
+export default defineNuxtPlugin((nuxtApp) => {
+  nuxtApp.hook("app:mounted", () => {
+    useAuth().watchIdleActivity();
+  });
+});
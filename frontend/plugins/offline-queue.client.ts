@@ -0,0 +1,30 @@
+/**
+ * Offline mutation queue plugin
+ * Enables the users store's offline mode when configured and replays queued
+ * mutations whenever the browser comes back online
+ */
+import { useUsersStore } from "../stores/users";
+
+export default defineNuxtPlugin(async () => {
+  const config = useRuntimeConfig();
+  if (!config.public.offlineMutations) {
+    return;
+  }
+
+  const usersStore = useUsersStore();
+
+  try {
+    await usersStore.enableOfflineMode();
+  } catch (error) {
+    console.error("Failed to restore offline mutation queue:", error);
+    return;
+  }
+
+  window.addEventListener("online", () => {
+    usersStore.replayPendingMutations();
+  });
+
+  if (navigator.onLine) {
+    usersStore.replayPendingMutations();
+  }
+});
@@ -2,6 +2,11 @@
  * Services plugin for dependency injection
  * Initializes and provides services to the entire application
  */
+import { provideServices } from "../composables/useServices";
+import {
+  createCacheStorage,
+  type CacheStorageType,
+} from "../utils/cache-storage";
 
 export default defineNuxtPlugin(() => {
   // Initialize services container
@@ -11,6 +16,20 @@ export default defineNuxtPlugin(() => {
   const logger = services.logger;
   logger.info("Services initialized successfully");
 
+  // Persist the shared API cache in the configured backend
+  const config = useRuntimeConfig();
+  const cacheStorage = config.public.apiCacheStorage as CacheStorageType;
+  if (cacheStorage && cacheStorage !== "memory") {
+    services.cacheService
+      .setStorage(createCacheStorage(cacheStorage))
+      .then((loaded) => {
+        logger.debug(`Restored ${loaded} cached responses from ${cacheStorage}`);
+      })
+      .catch((error) => {
+        logger.warn("Failed to restore persisted API cache:", error);
+      });
+  }
+
   // Provide global error handler
   const errorHandler = (error: Error) => {
     logger.error("Global error caught:", error);
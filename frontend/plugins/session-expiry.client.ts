@@ -0,0 +1,12 @@
+/**
+ * Session expiry plugin
+ * Starts the expiry warning once the app, and with it the toast container,
+ * is mounted
+ */
+import { useAuth } from "../composables/useAuth";
+
+export default defineNuxtPlugin((nuxtApp) => {
+  nuxtApp.hook("app:mounted", () => {
+    useAuth().watchSessionExpiry();
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * User session plugin
+ * Hydrates the session before the first render: on the server from the
+ * request's cookie, after which the payload carries it to the client, and in
+ * the browser for pages that were not server-rendered
+ */
+import { useUserSession } from "../composables/useUserSession";
+
+export default defineNuxtPlugin({
+  name: "user-session",
+  enforce: "pre",
+  async setup(nuxtApp) {
+    const { ready, fetch } = useUserSession();
+
+    if (ready.value) {
+      return;
+    }
+
+    if (import.meta.server || !nuxtApp.payload.serverRendered) {
+      await fetch();
+    }
+  },
+});
@@ -0,0 +1,51 @@
+import type { ApiEnvelope, LoginResponse } from "../../../types/index";
+
+/**
+ * Server-side login handler
+ * Signs in against the Laravel API and keeps the Sanctum token in the sealed
+ * session cookie; the browser only receives the user
+ */
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig(event);
+  const body = await readBody(event);
+  // Laravel rate limits logins per client; without this it sees only Nuxt
+  const clientIp = getRequestIP(event, { xForwardedFor: true });
+
+  try {
+    const response = await $fetch<ApiEnvelope<LoginResponse>>("/auth/login", {
+      baseURL: config.public.apiBase,
+      method: "POST",
+      body,
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...(clientIp && { "X-Forwarded-For": clientIp }),
+      },
+    });
+    const { user, token, expires_at } = response.data;
+
+    // A new login never inherits data from an earlier session
+    await replaceUserSession(event, {
+      user,
+      loggedInAt: new Date().toISOString(),
+      expiresAt: expires_at ?? undefined,
+      secure: { token },
+    });
+
+    return { user };
+  } catch (error: any) {
+    // Invalid credentials, validation errors and rate limits come back
+    // unchanged, so the login form can show Laravel's messages
+    if (error.response && error.status < 500) {
+      setResponseStatus(event, error.status);
+      return error.data;
+    }
+
+    console.error("Login error:", error);
+
+    throw createError({
+      statusCode: 503,
+      statusMessage: "Authentication service unavailable",
+    });
+  }
+});
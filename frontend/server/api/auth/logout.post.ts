@@ -1,21 +1,46 @@
-import { defineEventHandler, createError, deleteCookie } from "h3";
-
 /**
  * Server-side logout handler
- * Clears user session and handles logout
+ * Revokes the session's Sanctum token on the Laravel API, or every token of
+ * the user with `{ allDevices: true }`, and clears the sealed session
  */
 export default defineEventHandler(async (event) => {
-  try {
-    // Clear user session by deleting the session cookie
-    deleteCookie(event, "nuxt-session"); // Assuming 'nuxt-session' is your session cookie name
+  const config = useRuntimeConfig(event);
+  const { allDevices = false } =
+    (await readBody<{ allDevices?: boolean } | undefined>(event)) ?? {};
+  const { secure } = await getUserSession(event);
+
+  let revoked = true;
+
+  if (secure?.token) {
+    try {
+      await $fetch(allDevices ? "/auth/logout-all" : "/auth/logout", {
+        baseURL: config.public.apiBase,
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          Authorization: `Bearer ${secure.token}`,
+        },
+      });
+    } catch (error: any) {
+      // A rejected token is already unusable, which is what we want
+      revoked = error.status === 401;
 
-    return { success: true, message: "Logged out successfully" };
-  } catch (error: any) {
-    console.error("Logout error:", error);
+      if (!revoked) {
+        console.error("Token revocation error:", error);
+      }
+    }
+  }
+
+  // The session goes either way, so this browser is signed out
+  await clearUserSession(event);
 
+  // Other devices would silently stay signed in, so say so
+  if (!revoked && allDevices) {
     throw createError({
-      statusCode: 500,
-      statusMessage: "Logout failed",
+      statusCode: 502,
+      statusMessage: "Could not log out other devices",
     });
   }
-});
\ No newline at end of file
+
+  return { success: true, message: "Logged out successfully" };
+});
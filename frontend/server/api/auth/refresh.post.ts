@@ -0,0 +1,51 @@
+import type { ApiEnvelope, LoginResponse } from "../../../types/index";
+
+/**
+ * Session refresh handler
+ * Swaps the session's Sanctum token for a new one, pushing back its expiry
+ */
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig(event);
+  const session = await getUserSession(event);
+
+  if (!session.user || !session.secure?.token) {
+    throw createError({ statusCode: 401, statusMessage: "Not signed in" });
+  }
+
+  let data: Omit<LoginResponse, "user">;
+  try {
+    ({ data } = await $fetch<ApiEnvelope<Omit<LoginResponse, "user">>>(
+      "/auth/refresh",
+      {
+        baseURL: config.public.apiBase,
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          Authorization: `Bearer ${session.secure.token}`,
+        },
+      }
+    ));
+  } catch (error: any) {
+    // The token has already lapsed or was revoked; only a new login helps
+    if (error.status === 401) {
+      await clearUserSession(event);
+      throw createError({ statusCode: 401, statusMessage: "Session expired" });
+    }
+
+    console.error("Session refresh error:", error);
+
+    throw createError({
+      statusCode: 503,
+      statusMessage: "Authentication service unavailable",
+    });
+  }
+
+  const { user, loggedInAt, expiresAt } = await replaceUserSession(event, {
+    user: session.user,
+    loggedInAt: session.loggedInAt,
+    expiresAt: data.expires_at ?? undefined,
+    secure: { token: data.token },
+  });
+
+  return { user, loggedInAt, expiresAt };
+});
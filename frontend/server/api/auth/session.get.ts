@@ -0,0 +1,10 @@
+/**
+ * Current user session, used by useUserSession to hydrate
+ * Returns an empty object when nobody is signed in; the token never leaves
+ * the server
+ */
+export default defineEventHandler(async (event) => {
+  const { user, loggedInAt, expiresAt } = await getUserSession(event);
+
+  return user ? { user, loggedInAt, expiresAt } : {};
+});
@@ -0,0 +1,118 @@
+/**
+ * Backend proxy
+ * Forwards /api/backend/** to the Laravel API with the Sanctum token from the
+ * sealed session, so the browser never holds the token
+ */
+
+// Request headers passed on to the backend; cookies stay with Nuxt
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-language",
+  "content-type",
+  "x-requested-with",
+] as const;
+
+// Response headers passed back; rate limit headers drive the client's retries
+const FORWARDED_RESPONSE_HEADERS = [
+  "cache-control",
+  "content-disposition",
+  "content-type",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+] as const;
+
+/**
+ * Whether every segment names a route below the API base; empty, "." and
+ * ".." segments, percent-encoded or not, would resolve to other URLs
+ */
+const isSafePath = (path: string): boolean =>
+  path.split("/").every((segment) => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      return false;
+    }
+
+    return (
+      decoded !== "" &&
+      decoded !== "." &&
+      decoded !== ".." &&
+      !/[\\/]/.test(decoded)
+    );
+  });
+
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig(event);
+  const path = getRouterParam(event, "path") ?? "";
+  if (!isSafePath(path)) {
+    throw createError({ statusCode: 400, statusMessage: "Invalid path" });
+  }
+
+  const { search } = getRequestURL(event);
+  const method = event.method;
+
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = getRequestHeader(event, name);
+    if (value) headers[name] = value;
+  }
+
+  // Laravel's per-IP rate limits need the browser's address, not Nuxt's
+  const clientIp = getRequestIP(event, { xForwardedFor: true });
+  if (clientIp) headers["x-forwarded-for"] = clientIp;
+
+  const { secure } = await getUserSession(event);
+  if (secure?.token) {
+    headers.authorization = `Bearer ${secure.token}`;
+  }
+
+  // Raw bytes, so file uploads survive the round trip
+  const body =
+    method === "GET" || method === "HEAD"
+      ? undefined
+      : await readRawBody(event, false);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.public.apiBase}/${path}${search}`, {
+      method,
+      headers,
+      body: body && new Uint8Array(body),
+    });
+  } catch (error) {
+    console.error("Backend proxy error:", error);
+    throw createError({
+      statusCode: 502,
+      statusMessage: "Backend unavailable",
+    });
+  }
+
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) setResponseHeader(event, name, value);
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => undefined);
+
+    // The backend no longer accepts the token, so the session is useless
+    if (response.status === 401) {
+      await clearUserSession(event);
+    }
+
+    throw createError({
+      statusCode: response.status,
+      statusMessage: response.statusText,
+      message: data?.message,
+      data,
+    });
+  }
+
+  setResponseStatus(event, response.status);
+
+  // Stream the body through, e.g. for large exports
+  return response.body ? sendStream(event, response.body) : null;
+});
@@ -3,13 +3,37 @@
  * Centralized state management for user CRUD operations
  */
 import { defineStore } from "pinia";
+import {
+  ApiError,
+  NetworkError,
+  ValidationError,
+  isAbortError,
+} from "../composables/useApi";
+import { useApiCache } from "../composables/useApiCache";
+import { useApiClient } from "../composables/useApiClient";
+import { useToast } from "../composables/useToast";
 import type {
+  BatchSelection,
+  BatchUserResponse,
   CreateUserData,
   UpdateUserData,
   User,
+  UserListQuery,
   UserListResponse,
   UserRole,
+  UserSortColumn,
+  SortOrder,
 } from "../types/index";
+import {
+  applyQueuedMutations,
+  createMutationQueueStorage,
+  enqueueMutation,
+  needsPassword,
+  restoreQueuedMutations,
+  type MutationQueueStorage,
+  type QueuedMutation,
+  type QueuedMutationType,
+} from "../utils/mutation-queue";
 
 interface UserState {
   users: User[];
@@ -19,34 +43,123 @@ interface UserState {
     lastPage: number;
     perPage: number;
     total: number;
+    from: number | null; // Position of the first and last row on this page
+    to: number | null;
+  };
+  sort: {
+    by: UserSortColumn;
+    order: SortOrder;
   };
   loading: {
     list: boolean;
+    more: boolean; // Next page for infinite scrolling
+    detail: boolean; // Single user, see fetchUser
     create: boolean;
     update: boolean;
     delete: boolean;
+    bulk: boolean;
+    trash: boolean;
+    restore: boolean;
+    purge: boolean;
+  };
+  // Soft deleted users, listed apart from the active ones
+  trash: {
+    users: User[];
+    pagination: UserState["pagination"];
+  };
+  selection: {
+    ids: number[];
+    allMatching: boolean; // Every user matching the current filters, on any page
   };
   error: string | null;
+  offline: {
+    enabled: boolean; // Opt-in: queue mutations instead of failing while offline
+    replaying: boolean;
+  };
+  pendingMutations: QueuedMutation[];
 }
 
-export const useUsersStore = defineStore("users", {
-  state: (): UserState => ({
+// In-flight list request, aborted when a newer fetch supersedes it
+let fetchUsersController: AbortController | null = null;
+
+// Most recently requested list query; background refreshes for older ones are ignored
+let latestListQuery: string | null = null;
+
+// Persistence for the offline queue, created when offline mode is enabled
+let queueStorage: MutationQueueStorage | null = null;
+
+/**
+ * Add a page of users below the loaded ones
+ * Users already shown (e.g. offline placeholders, or rows shifted by a
+ * concurrent create) are updated in place instead of listed twice.
+ */
+const mergeUsers = (loaded: User[], page: User[]): User[] => {
+  const incoming = new Map(page.map((user) => [user.id, user]));
+  const merged = loaded.map((user) => incoming.get(user.id) ?? user);
+  const known = new Set(loaded.map((user) => user.id));
+
+  return [...merged, ...page.filter((user) => !known.has(user.id))];
+};
+
+/** Cache tags for user data, invalidated after every mutation */
+export const USERS_CACHE_TAG = "users";
+export const userCacheTag = (userId: number): string => `user:${userId}`;
+
+/**
+ * Empty store state, also used to wipe the store on logout
+ */
+const createInitialState = (): UserState => ({
+  users: [],
+  currentUser: null,
+  pagination: {
+    currentPage: 1,
+    lastPage: 1,
+    perPage: 15,
+    total: 0,
+    from: null,
+    to: null,
+  },
+  sort: {
+    by: "created_at",
+    order: "desc",
+  },
+  loading: {
+    list: false,
+    more: false,
+    detail: false,
+    create: false,
+    update: false,
+    delete: false,
+    bulk: false,
+    trash: false,
+    restore: false,
+    purge: false,
+  },
+  trash: {
     users: [],
-    currentUser: null,
     pagination: {
       currentPage: 1,
       lastPage: 1,
       perPage: 15,
       total: 0,
+      from: null,
+      to: null,
     },
-    loading: {
-      list: false,
-      create: false,
-      update: false,
-      delete: false,
-    },
-    error: null,
-  }),
+  },
+  selection: {
+    ids: [],
+    allMatching: false,
+  },
+  error: null,
+  offline: {
+    enabled: false,
+    replaying: false,
+  },
+  pendingMutations: [],
+});
+
+export const useUsersStore = defineStore("users", {
+  state: createInitialState,
 
   getters: {
     /**
@@ -80,6 +193,51 @@ export const useUsersStore = defineStore("users", {
     isAnyLoading: (state): boolean => {
       return Object.values(state.loading).some((loading) => loading);
     },
+
+    /**
+     * Number of users a bulk action would affect
+     */
+    selectedCount: (state): number => {
+      return state.selection.allMatching
+        ? state.pagination.total
+        : state.selection.ids.length;
+    },
+
+    /**
+     * Check whether a user is part of the bulk selection
+     */
+    isUserSelected:
+      (state) =>
+      (userId: number): boolean => {
+        return (
+          state.selection.allMatching || state.selection.ids.includes(userId)
+        );
+      },
+
+    /**
+     * Whether pages after the loaded ones exist
+     */
+    hasMoreUsers: (state): boolean => {
+      return state.pagination.currentPage < state.pagination.lastPage;
+    },
+
+    /**
+     * Latest queued mutation per user, used to mark pending rows
+     */
+    pendingMutationsByUser: (state): Record<number, QueuedMutation> => {
+      return Object.fromEntries(
+        state.pendingMutations.map((mutation) => [mutation.userId, mutation])
+      );
+    },
+
+    /**
+     * Queued mutations the server rejected on replay
+     */
+    conflictedMutations: (state): QueuedMutation[] => {
+      return state.pendingMutations.filter(
+        (mutation) => mutation.status === "conflict"
+      );
+    },
   },
 
   actions: {
@@ -92,37 +250,175 @@ export const useUsersStore = defineStore("users", {
 
     /**
      * Fetch users with pagination and filtering
+     * With `append` the page is added below the users already loaded, as used by
+     * infinite scrolling; otherwise it replaces them.
      */
-    async fetchUsers(page: number = 1, search?: string, role?: string) {
-      this.loading.list = true;
+    async fetchUsers(
+      page: number = 1,
+      search?: string,
+      role?: string,
+      { append = false }: { append?: boolean } = {}
+    ) {
+      fetchUsersController?.abort();
+      const controller = new AbortController();
+      fetchUsersController = controller;
+
+      this.loading[append ? "more" : "list"] = true;
       this.clearError();
 
+      // A selection made under other filters no longer matches what is shown
+      const previous = JSON.parse(latestListQuery ?? "{}") as UserListQuery;
+      if (previous.search !== search || previous.role !== role) {
+        this.clearSelection();
+      }
+
       try {
-        const { get } = useApi();
+        const api = useApiClient();
         const { monitorApiRequest } = usePerformance();
 
-        const params = new URLSearchParams({
-          page: page.toString(),
-          ...(search && { search }),
-          ...(role && { role }),
-        });
+        const query: UserListQuery = {
+          page,
+          per_page: this.pagination.perPage,
+          search,
+          role: role as UserRole | undefined,
+          sort_by: this.sort.by,
+          sort_order: this.sort.order,
+        };
+        const queryKey = JSON.stringify(query);
+        // Appended pages extend the latest query rather than replacing it
+        if (!append) latestListQuery = queryKey;
 
-        const response = await monitorApiRequest(`/users?${params}`, () =>
-          get<UserListResponse>(`/users?${params}`)
+        const response = await monitorApiRequest("/users", () =>
+          api.users.list(query, {
+            signal: controller.signal,
+            cache: true,
+            tags: [USERS_CACHE_TAG],
+            // A late revalidation would replace the pages appended since
+            staleWhileRevalidate: !append,
+            onRevalidate: (fresh: UserListResponse) => {
+              if (
+                latestListQuery === queryKey &&
+                this.pagination.currentPage === page
+              ) {
+                this.applyUserList(fresh);
+              }
+            },
+          })
         );
 
-        this.users = response.data;
-        this.pagination = {
-          currentPage: response.current_page,
-          lastPage: response.last_page,
-          perPage: response.per_page,
-          total: response.total,
-        };
+        this.applyUserList(response, { append });
       } catch (error: any) {
+        // A newer fetch replaced this one; its response must not win
+        if (isAbortError(error)) {
+          return;
+        }
+
         this.error = "Failed to fetch users";
         console.error("Fetch users error:", error);
       } finally {
-        this.loading.list = false;
+        if (fetchUsersController === controller) {
+          fetchUsersController = null;
+          this.loading.list = false;
+        }
+        if (append) {
+          this.loading.more = false;
+        }
+      }
+    },
+
+    /**
+     * Append the next page of the latest list query
+     */
+    async loadMoreUsers() {
+      const { currentPage, lastPage } = this.pagination;
+      if (this.loading.list || this.loading.more || currentPage >= lastPage) {
+        return;
+      }
+
+      const { search, role } = JSON.parse(
+        latestListQuery ?? "{}"
+      ) as UserListQuery;
+      await this.fetchUsers(currentPage + 1, search, role, { append: true });
+    },
+
+    /**
+     * Set the page size and sort used by the next fetch
+     */
+    setListOptions({
+      perPage,
+      sort,
+    }: {
+      perPage: number;
+      sort: UserState["sort"];
+    }) {
+      this.pagination.perPage = perPage;
+      this.sort = { ...sort };
+    },
+
+    /**
+     * Sort the list by a column
+     * Choosing the current column flips the direction; a new column starts
+     * ascending, except dates which start with the newest first.
+     */
+    setSort(column: UserSortColumn) {
+      if (this.sort.by === column) {
+        this.sort.order = this.sort.order === "asc" ? "desc" : "asc";
+        return;
+      }
+
+      this.sort = {
+        by: column,
+        order: column === "created_at" ? "desc" : "asc",
+      };
+    },
+
+    /**
+     * Apply a user list response to the state
+     */
+    applyUserList(
+      response: UserListResponse,
+      { append = false }: { append?: boolean } = {}
+    ) {
+      const users = applyQueuedMutations(response.data, this.pendingMutations);
+      this.users = append ? mergeUsers(this.users, users) : users;
+      this.pagination = {
+        currentPage: response.meta.current_page,
+        lastPage: response.meta.last_page,
+        perPage: response.meta.per_page,
+        total: response.meta.total,
+        from: response.meta.from,
+        to: response.meta.to,
+      };
+    },
+
+    /**
+     * Drop cached user lists (and a single user's entries) after a mutation
+     */
+    invalidateUserCache(userId?: number) {
+      const { invalidateTag } = useApiCache();
+      invalidateTag(USERS_CACHE_TAG);
+      if (userId !== undefined) {
+        invalidateTag(userCacheTag(userId));
+      }
+    },
+
+    /**
+     * Fetch a single user into currentUser, including soft deleted users
+     * Errors (such as a 404) are left to the caller.
+     */
+    async fetchUser(userId: number) {
+      this.loading.detail = true;
+
+      try {
+        const response = await useApiClient().users.show(userId, {
+          cache: true,
+          tags: [USERS_CACHE_TAG, userCacheTag(userId)],
+        });
+
+        this.currentUser = response.data;
+        return response.data;
+      } finally {
+        this.loading.detail = false;
       }
     },
 
@@ -134,15 +430,31 @@ export const useUsersStore = defineStore("users", {
       this.clearError();
 
       try {
-        const { post } = useApi();
-        const response = await post<{ data: User }>("/users", userData);
+        if (this.shouldQueue()) {
+          return await this.queueMutation(
+            "create",
+            this.nextPlaceholderId(),
+            userData
+          );
+        }
+
+        const response = await useApiClient().users.create(userData);
 
         // Add new user to the list
         this.users.unshift(response.data);
         this.pagination.total += 1;
+        this.invalidateUserCache();
 
         return response.data;
       } catch (error: any) {
+        if (this.shouldQueue(error)) {
+          return await this.queueMutation(
+            "create",
+            this.nextPlaceholderId(),
+            userData
+          );
+        }
+
         this.error = "Failed to create user";
         throw error;
       } finally {
@@ -156,22 +468,33 @@ export const useUsersStore = defineStore("users", {
     async updateUser(userId: number, userData: UpdateUserData) {
       this.loading.update = true;
       this.clearError();
+      let rollback: (() => void) | null = null;
 
       try {
-        const { put } = useApi();
-        const response = await put<{ data: User }>(
-          `/users/${userId}`,
-          userData
-        );
-
-        // Update user in the list
-        const index = this.users.findIndex((user: User) => user.id === userId);
-        if (index !== -1) {
-          this.users[index] = response.data;
+        if (this.shouldQueue(undefined, userId)) {
+          return await this.queueMutation("update", userId, userData);
         }
 
+        rollback = this.applyOptimisticUpdate(userId, userData);
+        const response = await useApiClient().users.update(userId, userData);
+
+        this.reconcileUser(response.data);
+        this.invalidateUserCache(userId);
+
         return response.data;
       } catch (error: any) {
+        rollback?.();
+
+        if (this.shouldQueue(error)) {
+          return await this.queueMutation("update", userId, userData);
+        }
+
+        if (rollback) {
+          useToast().error(
+            `Changes to ${userData.name} ${userData.last_name} could not be saved and were reverted.`,
+            { title: "Update Failed" }
+          );
+        }
         this.error = "Failed to update user";
         throw error;
       } finally {
@@ -186,14 +509,31 @@ export const useUsersStore = defineStore("users", {
       this.loading.delete = true;
       this.clearError();
 
+      let rollback: (() => void) | null = null;
+
       try {
-        const { del } = useApi();
-        await del(`/users/${userId}`);
+        if (this.shouldQueue(undefined, userId)) {
+          await this.queueMutation("delete", userId);
+          return;
+        }
 
-        // Remove user from the list
-        this.users = this.users.filter((user: User) => user.id !== userId);
-        this.pagination.total -= 1;
+        rollback = this.applyOptimisticDelete(userId);
+        await useApiClient().users.delete(userId);
+
+        this.invalidateUserCache(userId);
       } catch (error: any) {
+        rollback?.();
+
+        if (this.shouldQueue(error)) {
+          await this.queueMutation("delete", userId);
+          return;
+        }
+
+        if (rollback) {
+          useToast().error("The user could not be deleted and was restored.", {
+            title: "Delete Failed",
+          });
+        }
         this.error = "Failed to delete user";
         throw error;
       } finally {
@@ -201,11 +541,577 @@ export const useUsersStore = defineStore("users", {
       }
     },
 
+    /**
+     * Patch a listed user before the server confirms the update
+     * @returns Function restoring the previous values, or null when the user is not listed
+     */
+    applyOptimisticUpdate(
+      userId: number,
+      userData: UpdateUserData
+    ): (() => void) | null {
+      const previous = this.users.find((user: User) => user.id === userId);
+      if (!previous) {
+        return null;
+      }
+
+      const { name, last_name, email, role } = userData;
+      this.reconcileUser({ ...previous, name, last_name, email, role });
+
+      return () => this.reconcileUser(previous);
+    },
+
+    /**
+     * Remove a listed user before the server confirms the delete
+     * @returns Function putting the user back in place, or null when the user is not listed
+     */
+    applyOptimisticDelete(userId: number): (() => void) | null {
+      const index = this.users.findIndex((user: User) => user.id === userId);
+      const removed = this.users[index];
+      if (!removed) {
+        return null;
+      }
+
+      this.users.splice(index, 1);
+      this.pagination.total -= 1;
+
+      return () => {
+        this.users.splice(Math.min(index, this.users.length), 0, removed);
+        this.pagination.total += 1;
+      };
+    },
+
+    /**
+     * Replace a listed user with the server's canonical version
+     */
+    reconcileUser(user: User) {
+      const index = this.users.findIndex(
+        (listed: User) => listed.id === user.id
+      );
+      if (index !== -1) {
+        this.users[index] = user;
+      }
+      if (this.currentUser?.id === user.id) {
+        this.currentUser = user;
+      }
+    },
+
+    /**
+     * Turn on offline mode and restore mutations queued in a previous session
+     */
+    async enableOfflineMode() {
+      queueStorage ??= createMutationQueueStorage();
+      this.offline.enabled = true;
+      this.pendingMutations = restoreQueuedMutations(
+        await queueStorage.load()
+      );
+      this.users = applyQueuedMutations(this.users, this.pendingMutations);
+    },
+
+    /**
+     * Whether a mutation should be queued instead of (or after) hitting the network
+     * Mutations for users with queued changes are queued too, so replay keeps their order.
+     */
+    shouldQueue(error?: unknown, userId?: number): boolean {
+      if (!this.offline.enabled) {
+        return false;
+      }
+
+      if (error !== undefined) {
+        return error instanceof NetworkError;
+      }
+
+      return (
+        (import.meta.client && !navigator.onLine) ||
+        (userId !== undefined && userId in this.pendingMutationsByUser)
+      );
+    },
+
+    /**
+     * Negative id for a user created offline, unique within the queue
+     */
+    nextPlaceholderId(): number {
+      const ids = this.pendingMutations.map((mutation) => mutation.userId);
+      return Math.min(0, ...ids) - 1;
+    },
+
+    /**
+     * Queue a mutation, persist it and apply it to the list right away
+     * @returns The user as it will look once the mutation is replayed
+     */
+    async queueMutation(
+      type: QueuedMutationType,
+      userId: number,
+      payload?: CreateUserData | UpdateUserData
+    ): Promise<User> {
+      const previous = this.users.find((user: User) => user.id === userId);
+      const mutation: QueuedMutation = {
+        id: Math.max(0, ...this.pendingMutations.map(({ id }) => id)) + 1,
+        type,
+        userId,
+        payload,
+        queuedAt: new Date().toISOString(),
+        status: "pending",
+      };
+
+      const { queue, removed } = enqueueMutation(
+        this.pendingMutations,
+        mutation
+      );
+      const changed = queue.filter(
+        (queued) => !this.pendingMutations.includes(queued)
+      );
+      this.pendingMutations = queue;
+
+      this.users = applyQueuedMutations(this.users, [mutation]);
+      if (type === "create") this.pagination.total += 1;
+      if (type === "delete") this.pagination.total -= 1;
+
+      await Promise.all([
+        ...removed.map(({ id }) => queueStorage?.remove(id)),
+        ...changed.map((queued) => queueStorage?.put(queued)),
+      ]);
+
+      // Follow-ups to queued mutations can be sent as soon as we are online
+      if (import.meta.client && navigator.onLine) {
+        this.replayPendingMutations();
+      }
+
+      return (
+        this.users.find((user: User) => user.id === userId) ??
+        (previous as User)
+      );
+    },
+
+    /**
+     * Replay queued mutations in order
+     * Stops at the first conflict so later mutations never overtake it;
+     * the conflict stays in the queue until it is retried or discarded.
+     */
+    async replayPendingMutations() {
+      if (this.offline.replaying) {
+        return;
+      }
+
+      this.offline.replaying = true;
+
+      try {
+        for (;;) {
+          const mutation = this.pendingMutations[0];
+          if (!mutation || mutation.status === "conflict") {
+            break;
+          }
+
+          try {
+            const user = await this.sendQueuedMutation(mutation);
+            await this.settleQueuedMutation(mutation, user);
+          } catch (error) {
+            // Still offline: try again on the next "online" event
+            if (error instanceof NetworkError) {
+              break;
+            }
+
+            // Deleting a user that no longer exists already has the desired outcome
+            if (
+              mutation.type === "delete" &&
+              (error as ApiError)?.status === 404
+            ) {
+              await this.settleQueuedMutation(mutation, null);
+              continue;
+            }
+
+            await this.markConflict(mutation, error);
+            break;
+          }
+        }
+      } finally {
+        this.offline.replaying = false;
+      }
+    },
+
+    /**
+     * Send a queued mutation to the server
+     * @returns The server's user for creates and updates
+     */
+    async sendQueuedMutation(mutation: QueuedMutation): Promise<User | null> {
+      const api = useApiClient();
+
+      switch (mutation.type) {
+        case "create":
+          return (await api.users.create(mutation.payload as CreateUserData))
+            .data;
+        case "update":
+          return (
+            await api.users.update(
+              mutation.userId,
+              mutation.payload as UpdateUserData
+            )
+          ).data;
+        case "delete":
+          await api.users.delete(mutation.userId);
+          return null;
+      }
+    },
+
+    /**
+     * Drop a replayed mutation from the queue and swap in the server's user
+     */
+    async settleQueuedMutation(mutation: QueuedMutation, user: User | null) {
+      this.pendingMutations = this.pendingMutations.filter(
+        (queued) => queued.id !== mutation.id
+      );
+      await queueStorage?.remove(mutation.id);
+
+      if (user) {
+        const index = this.users.findIndex(
+          (listed: User) => listed.id === mutation.userId
+        );
+        // Creates are listed under their placeholder id until now
+        if (index !== -1) {
+          this.users[index] = user;
+        }
+      }
+
+      this.invalidateUserCache(user?.id ?? mutation.userId);
+    },
+
+    /**
+     * Record why the server rejected a queued mutation
+     */
+    async markConflict(mutation: QueuedMutation, error: unknown) {
+      const conflicted: QueuedMutation = {
+        ...mutation,
+        status: "conflict",
+        conflict: {
+          status: error instanceof ApiError ? error.status : 0,
+          message:
+            error instanceof Error ? error.message : "Failed to sync change",
+          errors: error instanceof ValidationError ? error.errors : undefined,
+        },
+      };
+
+      this.pendingMutations = this.pendingMutations.map((queued) =>
+        queued.id === mutation.id ? conflicted : queued
+      );
+      await queueStorage?.put(conflicted);
+    },
+
+    /**
+     * Send a conflicted mutation again, e.g. after fixing the data on the server
+     * @param changes Merged into the payload, e.g. a re-entered password
+     */
+    async retryMutation(
+      mutationId: number,
+      changes?: Partial<CreateUserData | UpdateUserData> & {
+        password_confirmation?: string;
+      }
+    ) {
+      const mutation = this.pendingMutations.find(
+        ({ id }) => id === mutationId
+      );
+      if (!mutation) {
+        return;
+      }
+
+      const pending = {
+        ...mutation,
+        payload: changes
+          ? { ...mutation.payload, ...changes }
+          : mutation.payload,
+        status: "pending",
+        conflict: undefined,
+      } as QueuedMutation;
+      if (needsPassword(pending)) {
+        return;
+      }
+
+      this.pendingMutations = this.pendingMutations.map((queued) =>
+        queued.id === mutationId ? pending : queued
+      );
+      await queueStorage?.put(pending);
+      await this.replayPendingMutations();
+    },
+
+    /**
+     * Give up on a queued mutation and restore the server's version of the list
+     */
+    async discardMutation(mutationId: number) {
+      const mutation = this.pendingMutations.find(
+        ({ id }) => id === mutationId
+      );
+      if (!mutation) {
+        return;
+      }
+
+      this.pendingMutations = this.pendingMutations.filter(
+        ({ id }) => id !== mutationId
+      );
+      await queueStorage?.remove(mutationId);
+
+      if (mutation.type === "create") {
+        this.users = this.users.filter(
+          (user: User) => user.id !== mutation.userId
+        );
+        this.pagination.total -= 1;
+      } else {
+        this.invalidateUserCache(mutation.userId);
+        await this.refreshUsers();
+      }
+
+      await this.replayPendingMutations();
+    },
+
+    /**
+     * Reload the most recently requested page of users
+     * An infinite list restarts from its first page.
+     */
+    async refreshUsers() {
+      const { page, search, role } = JSON.parse(
+        latestListQuery ?? "{}"
+      ) as UserListQuery;
+      await this.fetchUsers(page, search, role);
+    },
+
+    /**
+     * Add a user to the bulk selection, or remove it
+     * Deselecting a row while all matching users are selected keeps the other
+     * loaded rows selected.
+     */
+    toggleUserSelection(userId: number) {
+      const { ids, allMatching } = this.selection;
+
+      if (allMatching) {
+        this.selection = {
+          ids: this.selectableUserIds().filter((id) => id !== userId),
+          allMatching: false,
+        };
+      } else if (ids.includes(userId)) {
+        this.selection.ids = ids.filter((id) => id !== userId);
+      } else {
+        this.selection.ids = [...ids, userId];
+      }
+    },
+
+    /**
+     * Select or deselect every loaded user
+     */
+    setPageSelection(selected: boolean) {
+      const pageIds = this.selectableUserIds();
+      const others = this.selection.allMatching
+        ? []
+        : this.selection.ids.filter((id) => !pageIds.includes(id));
+
+      this.selection = {
+        ids: selected ? [...others, ...pageIds] : others,
+        allMatching: false,
+      };
+    },
+
+    /**
+     * Select every user matching the current filters, including other pages
+     */
+    selectAllMatching() {
+      this.selection = { ids: [], allMatching: true };
+    },
+
+    /**
+     * Empty the bulk selection
+     */
+    clearSelection() {
+      this.selection = { ids: [], allMatching: false };
+    },
+
+    /**
+     * Loaded users that can be part of a batch; offline placeholders cannot
+     */
+    selectableUserIds(): number[] {
+      return this.users.map((user) => user.id).filter((id) => id > 0);
+    },
+
+    /**
+     * Request body describing the bulk selection
+     */
+    batchSelection(): BatchSelection {
+      if (!this.selection.allMatching) {
+        return { ids: [...this.selection.ids] };
+      }
+
+      const { search, role } = JSON.parse(
+        latestListQuery ?? "{}"
+      ) as UserListQuery;
+      return { filter: { search: search || null, role: role ?? null } };
+    },
+
+    /**
+     * Delete every selected user
+     * @returns Per-user results; failed users stay selected
+     */
+    async bulkDeleteUsers(): Promise<BatchUserResponse> {
+      this.loading.bulk = true;
+      this.clearError();
+
+      try {
+        const response = await useApiClient().users.batchDelete(
+          this.batchSelection()
+        );
+        await this.finishBulkAction(response.data);
+        return response.data;
+      } catch (error: any) {
+        this.error = "Failed to delete users";
+        throw error;
+      } finally {
+        this.loading.bulk = false;
+      }
+    },
+
+    /**
+     * Give every selected user a new role
+     * @returns Per-user results; failed users stay selected
+     */
+    async bulkChangeRole(role: UserRole): Promise<BatchUserResponse> {
+      this.loading.bulk = true;
+      this.clearError();
+
+      try {
+        const response = await useApiClient().users.batchRole({
+          ...this.batchSelection(),
+          role,
+        });
+        await this.finishBulkAction(response.data);
+        return response.data;
+      } catch (error: any) {
+        this.error = "Failed to update users";
+        throw error;
+      } finally {
+        this.loading.bulk = false;
+      }
+    },
+
+    /**
+     * Reload after a bulk action, keeping the failed users selected for a retry
+     */
+    async finishBulkAction({ results }: BatchUserResponse) {
+      results
+        .filter((result) => result.success)
+        .forEach((result) => this.invalidateUserCache(result.id));
+
+      this.selection = {
+        ids: results
+          .filter((result) => !result.success)
+          .map((result) => result.id),
+        allMatching: false,
+      };
+
+      await this.refreshUsers();
+    },
+
+    /**
+     * Fetch a page of soft deleted users, most recently deleted first
+     */
+    async fetchTrashedUsers(page: number = 1) {
+      this.loading.trash = true;
+      this.clearError();
+
+      try {
+        const response = await useApiClient().users.trash(
+          { page, per_page: this.trash.pagination.perPage },
+          { cache: true, tags: [USERS_CACHE_TAG] }
+        );
+
+        this.trash = {
+          users: response.data,
+          pagination: {
+            currentPage: response.meta.current_page,
+            lastPage: response.meta.last_page,
+            perPage: response.meta.per_page,
+            total: response.meta.total,
+            from: response.meta.from,
+            to: response.meta.to,
+          },
+        };
+      } catch (error: any) {
+        this.error = "Failed to fetch deleted users";
+        console.error("Fetch deleted users error:", error);
+      } finally {
+        this.loading.trash = false;
+      }
+    },
+
+    /**
+     * Restore a soft deleted user
+     * The active list is not reloaded here; callers showing it refresh it.
+     */
+    async restoreUser(userId: number) {
+      this.loading.restore = true;
+      this.clearError();
+
+      try {
+        const response = await useApiClient().users.restore(userId);
+
+        this.removeFromTrash(userId);
+        this.reconcileUser(response.data);
+        this.invalidateUserCache(userId);
+
+        return response.data;
+      } catch (error: any) {
+        this.error = "Failed to restore user";
+        throw error;
+      } finally {
+        this.loading.restore = false;
+      }
+    },
+
+    /**
+     * Permanently delete a soft deleted user
+     */
+    async purgeUser(userId: number) {
+      this.loading.purge = true;
+      this.clearError();
+
+      try {
+        await useApiClient().users.purge(userId);
+
+        this.removeFromTrash(userId);
+        this.invalidateUserCache(userId);
+      } catch (error: any) {
+        this.error = "Failed to permanently delete user";
+        throw error;
+      } finally {
+        this.loading.purge = false;
+      }
+    },
+
+    /**
+     * Drop a user from the loaded trash page
+     */
+    removeFromTrash(userId: number) {
+      const count = this.trash.users.length;
+      this.trash.users = this.trash.users.filter(
+        (user: User) => user.id !== userId
+      );
+      this.trash.pagination.total -= count - this.trash.users.length;
+    },
+
     /**
      * Set current user for editing
      */
     setCurrentUser(user: User | null) {
       this.currentUser = user;
     },
+
+    /**
+     * Forget everything loaded for the signed-in user, queued mutations included
+     * Offline mode stays on; it belongs to the app, not to the user.
+     */
+    async clearSessionData() {
+      fetchUsersController?.abort();
+      fetchUsersController = null;
+      latestListQuery = null;
+
+      const { enabled } = this.offline;
+      Object.assign(this, createInitialState());
+      this.offline.enabled = enabled;
+
+      await queueStorage?.clear();
+    },
   },
 });
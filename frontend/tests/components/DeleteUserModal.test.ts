@@ -1,4 +1,4 @@
-import { mount } from "@vue/test-utils";
+import { flushPromises, mount } from "@vue/test-utils";
 import { createPinia, setActivePinia } from "pinia";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import DeleteUserModal from "../../components/Users/DeleteUserModal.vue";
@@ -11,10 +11,24 @@ vi.mock("../../composables/useApi", () => ({
   }),
 }));
 
+const store = vi.hoisted(() => ({
+  deleteUser: vi.fn(),
+  restoreUser: vi.fn(),
+  refreshUsers: vi.fn(),
+  pendingMutationsByUser: {},
+}));
+
+const toast = vi.hoisted(() => ({
+  success: vi.fn(),
+  error: vi.fn(),
+}));
+
 vi.mock("../../stores/users", () => ({
-  useUsersStore: () => ({
-    deleteUser: vi.fn(),
-  }),
+  useUsersStore: () => store,
+}));
+
+vi.mock("../../composables/useToast", () => ({
+  useToast: () => toast,
 }));
 
 describe("DeleteUserModal", () => {
@@ -55,7 +69,7 @@ describe("DeleteUserModal", () => {
     });
 
     expect(wrapper.text()).toContain("Are you sure you want to delete");
-    expect(wrapper.text()).toContain("This action cannot be undone");
+    expect(wrapper.text()).toContain("moved to the trash");
   });
 
   it("displays user information to be deleted", () => {
@@ -127,4 +141,27 @@ describe("DeleteUserModal", () => {
     const cancelButton = wrapper.find('[data-testid="cancel-delete-btn"]');
     expect(cancelButton.exists()).toBe(true);
   });
+
+  it("offers to undo the delete from the toast", async () => {
+    const wrapper = mount(DeleteUserModal, {
+      props: {
+        isOpen: true,
+        user: mockUsers.reviewer,
+      },
+    });
+
+    await wrapper.find('[data-testid="confirm-delete-btn"]').trigger("click");
+    await flushPromises();
+
+    expect(store.deleteUser).toHaveBeenCalledWith(mockUsers.reviewer.id);
+    expect(wrapper.emitted("success")).toEqual([[mockUsers.reviewer]]);
+
+    const [, options] = toast.success.mock.calls[0]!;
+    expect(options.actionText).toBe("Undo");
+
+    await options.onAction();
+
+    expect(store.restoreUser).toHaveBeenCalledWith(mockUsers.reviewer.id);
+    expect(store.refreshUsers).toHaveBeenCalled();
+  });
 });
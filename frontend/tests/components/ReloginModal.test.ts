@@ -0,0 +1,62 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+import { waitForReauthentication } from "../../composables/useReauth";
+
+const auth = vi.hoisted(() => ({
+  user: null as any,
+  login: vi.fn(),
+  logout: vi.fn(),
+  isLoading: null as any,
+}));
+
+vi.mock("../../composables/useAuth", () => ({ useAuth: () => auth }));
+
+import ReloginModal from "../../components/Auth/ReloginModal.vue";
+
+describe("ReloginModal", () => {
+  beforeEach(() => {
+    auth.user = ref({ id: 1, email: "jane@example.com" });
+    auth.isLoading = ref(false);
+    auth.login.mockReset();
+    auth.logout.mockReset().mockResolvedValue(true);
+    vi.stubGlobal("useRoute", () => ({ fullPath: "/users" }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const signIn = async (email: string) => {
+    const wrapper = mount(ReloginModal);
+    const outcome = waitForReauthentication();
+    auth.user.value = null;
+    await flushPromises();
+
+    await wrapper.find("#relogin-email").setValue(email);
+    await wrapper.find('[data-testid="relogin-password"]').setValue("secret");
+    await wrapper.find("form").trigger("submit");
+    await flushPromises();
+
+    wrapper.unmount();
+    return outcome;
+  };
+
+  it("retries pending requests once the same user signs in", async () => {
+    auth.login.mockResolvedValue({
+      user: { id: 1, email: "Jane@example.com" },
+    });
+
+    await expect(signIn("jane@example.com")).resolves.toBe(true);
+    expect(auth.logout).not.toHaveBeenCalled();
+  });
+
+  it("drops pending requests and signs out another account", async () => {
+    auth.login.mockResolvedValue({
+      user: { id: 2, email: "john@example.com" },
+    });
+
+    await expect(signIn("john@example.com")).resolves.toBe(false);
+    expect(auth.logout).toHaveBeenCalled();
+  });
+});
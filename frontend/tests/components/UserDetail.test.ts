@@ -0,0 +1,111 @@
+import { flushPromises, mount } from "@vue/test-utils";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import UserDetail from "../../components/Users/UserDetail.vue";
+import { useUsersStore } from "../../stores/users";
+import { mockUsers } from "../test-utils";
+
+describe("UserDetail", () => {
+  const store = useUsersStore();
+  const { reviewer } = mockUsers;
+  let canManageUsers: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    canManageUsers = vi.fn(() => true);
+    vi.mocked((globalThis as any).useAuth).mockReturnValue({ canManageUsers });
+
+    store.currentUser = { ...reviewer };
+    vi.spyOn(store, "fetchUser").mockResolvedValue({ ...reviewer });
+  });
+
+  it("fetches the user and shows the profile", async () => {
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+    await flushPromises();
+
+    expect(store.fetchUser).toHaveBeenCalledWith(reviewer.id);
+    expect(wrapper.find('[data-testid="user-detail-name"]').text()).toBe(
+      "Reviewer User"
+    );
+    expect(wrapper.find('[data-testid="user-detail-role"]').text()).toBe(
+      "reviewer"
+    );
+    expect(wrapper.find('[data-testid="user-detail-status"]').text()).toBe(
+      "Active"
+    );
+  });
+
+  it("shows a skeleton until the requested user is loaded", () => {
+    store.currentUser = { ...mockUsers.administrator };
+
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+
+    expect(wrapper.find('[data-testid="user-detail-loading"]').exists()).toBe(
+      true
+    );
+  });
+
+  it("marks deleted users and does not offer to edit them", () => {
+    store.currentUser = { ...reviewer, deleted_at: "2024-02-01T10:00:00.000Z" };
+
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+
+    expect(wrapper.find('[data-testid="user-detail-status"]').text()).toBe(
+      "Deleted"
+    );
+    expect(wrapper.find('[data-testid="user-detail-deleted"]').exists()).toBe(
+      true
+    );
+    expect(wrapper.find('[data-testid="edit-user-detail-btn"]').exists()).toBe(
+      false
+    );
+  });
+
+  it("hides editing from users who cannot manage users", () => {
+    canManageUsers.mockReturnValue(false);
+
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+
+    expect(wrapper.find('[data-testid="edit-user-detail-btn"]').exists()).toBe(
+      false
+    );
+  });
+
+  it("saves inline edits through the store", async () => {
+    const updated = { ...reviewer, name: "Renamed" };
+    vi.spyOn(store, "updateUser").mockResolvedValue(updated);
+
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+    await wrapper.find('[data-testid="edit-user-detail-btn"]').trigger("click");
+    await wrapper.find("#detail-name").setValue("Renamed");
+    await wrapper.find('[data-testid="user-detail-form"]').trigger("submit");
+    await flushPromises();
+
+    expect(store.updateUser).toHaveBeenCalledWith(reviewer.id, {
+      name: "Renamed",
+      last_name: reviewer.last_name,
+      email: reviewer.email,
+      role: reviewer.role,
+    });
+    expect(wrapper.emitted("updated")).toEqual([[updated]]);
+    expect(wrapper.find('[data-testid="user-detail-form"]').exists()).toBe(
+      false
+    );
+  });
+
+  it("shows validation errors next to the fields", async () => {
+    vi.spyOn(store, "updateUser").mockRejectedValue({
+      status: 422,
+      data: {
+        errors: { email: ["This email address is already registered."] },
+      },
+    });
+
+    const wrapper = mount(UserDetail, { props: { userId: reviewer.id } });
+    await wrapper.find('[data-testid="edit-user-detail-btn"]').trigger("click");
+    await wrapper.find('[data-testid="user-detail-form"]').trigger("submit");
+    await flushPromises();
+
+    expect(wrapper.text()).toContain(
+      "This email address is already registered."
+    );
+  });
+});
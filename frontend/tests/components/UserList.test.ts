@@ -204,4 +204,111 @@ describe("UserList", () => {
       expect(true).toBe(true);
     }
   });
+
+  it("marks the sorted column and emits sort changes", async () => {
+    const wrapper = mount(UserList, {
+      props: {
+        users: [mockUsers.administrator, mockUsers.reviewer],
+        loading: false,
+        error: null,
+        pagination: {
+          currentPage: 1,
+          lastPage: 1,
+          perPage: 15,
+          total: 2,
+        },
+        sort: { by: "email", order: "asc" },
+      },
+    });
+
+    const emailHeader = wrapper.find('[data-testid="sort-email"]');
+    expect(emailHeader.element.closest("th")?.getAttribute("aria-sort")).toBe(
+      "ascending"
+    );
+    expect(
+      wrapper
+        .find('[data-testid="sort-name"]')
+        .element.closest("th")
+        ?.getAttribute("aria-sort")
+    ).toBe("none");
+
+    await wrapper.find('[data-testid="sort-created_at"]').trigger("click");
+    expect(wrapper.emitted("sort-change")).toEqual([["created_at"]]);
+  });
+
+  it("summarizes the page from the server range and offers page sizes", async () => {
+    const wrapper = mount(UserList, {
+      props: {
+        users: [mockUsers.administrator, mockUsers.reviewer],
+        pagination: {
+          currentPage: 3,
+          lastPage: 5,
+          perPage: 10,
+          total: 42,
+          from: 21,
+          to: 30,
+        },
+      },
+    });
+
+    expect(wrapper.find('[data-testid="pagination-summary"]').text()).toBe(
+      "Showing 21 to 30 of 42 results"
+    );
+
+    await wrapper.find('[data-testid="page-size"]').setValue("50");
+    expect(wrapper.emitted("page-size-change")).toEqual([[50]]);
+  });
+
+  it("jumps to first, last and a typed page", async () => {
+    const wrapper = mount(UserList, {
+      props: {
+        users: [mockUsers.administrator],
+        pagination: { currentPage: 3, lastPage: 5, perPage: 10, total: 42 },
+      },
+    });
+
+    await wrapper.find('[data-testid="first-page"]').trigger("click");
+    await wrapper.find('[data-testid="last-page"]').trigger("click");
+    await wrapper.find('[data-testid="jump-to-page"]').setValue(99);
+    await wrapper.find("form").trigger("submit");
+
+    expect(wrapper.emitted("page-change")).toEqual([[1], [5], [5]]);
+  });
+
+  it("renders a bounded window of rows in infinite mode and asks for more", () => {
+    const users = Array.from({ length: 500 }, (_, index) => ({
+      ...mockUsers.reviewer,
+      id: index + 1,
+    }));
+
+    const wrapper = mount(UserList, {
+      props: {
+        users,
+        pagination: { currentPage: 1, lastPage: 2, perPage: 500, total: 1000 },
+        mode: "infinite",
+        hasMore: true,
+      },
+    });
+
+    const rows = wrapper.findAll('[data-testid^="user-row-"]');
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(50);
+    expect(wrapper.find('[data-testid="infinite-summary"]').text()).toContain(
+      "Showing 500 of 1000 results"
+    );
+    expect(wrapper.find('nav[aria-label="Pagination"]').exists()).toBe(false);
+  });
+
+  it("loads the next page when the loaded rows do not fill the view", () => {
+    const wrapper = mount(UserList, {
+      props: {
+        users: [mockUsers.administrator, mockUsers.reviewer],
+        pagination: { currentPage: 1, lastPage: 3, perPage: 2, total: 6 },
+        mode: "infinite",
+        hasMore: true,
+      },
+    });
+
+    expect(wrapper.emitted("load-more")).toHaveLength(1);
+  });
 });
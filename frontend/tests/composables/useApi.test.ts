@@ -0,0 +1,466 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref } from "vue";
+
+vi.unmock("~/composables/useApi");
+
+import {
+  API_PROXY_BASE,
+  ContractError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  isAbortError,
+  resolveApiBase,
+  useApi,
+} from "../../composables/useApi";
+import { useReauth } from "../../composables/useReauth";
+import { apiInterceptors } from "../../utils/api-interceptors";
+import { userContract } from "../../utils/api-contracts";
+
+/**
+ * Creates a $fetch mock that never settles until its signal is aborted
+ */
+const createHangingFetch = () =>
+  vi.fn(
+    (_url: string, options: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        const rejectWithAbort = () => {
+          const error = new Error("The operation was aborted");
+          error.name = "AbortError";
+          reject(error);
+        };
+
+        if (options.signal.aborted) {
+          rejectWithAbort();
+        } else {
+          options.signal.addEventListener("abort", rejectWithAbort);
+        }
+      })
+  );
+
+describe("useApi", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue({ data: [] });
+
+    vi.stubGlobal("$fetch", mockFetch);
+    vi.stubGlobal("useRuntimeConfig", () => ({
+      public: { apiBase: "http://localhost:8000/api", apiTimeout: 5000 },
+    }));
+    vi.stubGlobal("useCsrf", () => ({
+      ensureCsrfToken: vi.fn().mockResolvedValue(null),
+    }));
+    vi.stubGlobal("useUserSession", () => ({ clear: vi.fn() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    apiInterceptors.request.clear();
+    apiInterceptors.response.clear();
+    apiInterceptors.error.clear();
+  });
+
+  describe("server proxy", () => {
+    it("targets the proxy unless it is turned off", () => {
+      expect(
+        resolveApiBase({ apiBase: "http://api.test/api", apiProxy: true })
+      ).toBe(API_PROXY_BASE);
+      expect(
+        resolveApiBase({ apiBase: "http://api.test/api", apiProxy: false })
+      ).toBe("http://api.test/api");
+    });
+
+    it("unwraps backend errors the proxy passes on", async () => {
+      vi.stubGlobal("useRuntimeConfig", () => ({
+        public: { apiBase: "http://localhost:8000/api", apiProxy: true },
+      }));
+      mockFetch.mockRejectedValue(
+        Object.assign(new Error("HTTP 422"), {
+          status: 422,
+          data: {
+            statusCode: 422,
+            message: "The email has already been taken.",
+            data: {
+              message: "The email has already been taken.",
+              errors: { email: ["The email has already been taken."] },
+            },
+          },
+        })
+      );
+      const { post } = useApi();
+
+      const error = await post("/users", {}).catch((err) => err);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/api/backend/users",
+        expect.any(Object)
+      );
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toMatchObject({
+        errors: { email: ["The email has already been taken."] },
+      });
+    });
+  });
+
+  describe("re-authentication", () => {
+    const unauthorized = () =>
+      Object.assign(new Error("HTTP 401"), { status: 401, data: null });
+
+    it("retries a request once the user signs in again", async () => {
+      vi.stubGlobal("useUserSession", () => ({
+        loggedIn: ref(true),
+        clear: vi.fn(),
+      }));
+      const { registerHandler, settle } = useReauth();
+      const unregister = registerHandler();
+      mockFetch
+        .mockRejectedValueOnce(unauthorized())
+        .mockResolvedValueOnce({ data: { id: 1 } });
+      const { put } = useApi();
+
+      const pending = put("/users/1", { name: "Jane" });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      settle(true);
+
+      await expect(pending).resolves.toEqual({ data: { id: 1 } });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "http://localhost:8000/api/users/1",
+        expect.objectContaining({ body: JSON.stringify({ name: "Jane" }) })
+      );
+      unregister();
+    });
+
+    it("fails with 401 when nobody can sign in again", async () => {
+      mockFetch.mockRejectedValue(unauthorized());
+      const { post } = useApi();
+
+      await expect(post("/users", {})).rejects.toMatchObject({ status: 401 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not ask visitors who never signed in", async () => {
+      vi.stubGlobal("useUserSession", () => ({
+        loggedIn: ref(false),
+        clear: vi.fn(),
+      }));
+      const { required, registerHandler } = useReauth();
+      const unregister = registerHandler();
+      mockFetch.mockRejectedValue(unauthorized());
+      const { get } = useApi();
+
+      await expect(get("/users")).rejects.toMatchObject({ status: 401 });
+      expect(required.value).toBe(false);
+      unregister();
+    });
+  });
+
+  describe("cancellation and timeouts", () => {
+    it("passes an abort signal to every request", async () => {
+      const { get } = useApi();
+
+      await get("/users");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://localhost:8000/api/users",
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it("throws a TimeoutError when the configured timeout elapses", async () => {
+      vi.useFakeTimers();
+      mockFetch.mockImplementation(createHangingFetch());
+      const { get } = useApi();
+
+      const pending = get("/users");
+      const assertion = expect(pending).rejects.toBeInstanceOf(TimeoutError);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      await assertion;
+    });
+
+    it("lets a per-call timeout override the runtime config", async () => {
+      vi.useFakeTimers();
+      mockFetch.mockImplementation(createHangingFetch());
+      const { post } = useApi();
+
+      const pending = post("/users", {}, { timeout: 100 });
+      const assertion = expect(pending).rejects.toMatchObject({
+        name: "TimeoutError",
+        status: 408,
+        timeout: 100,
+      });
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+    });
+
+    it("rethrows an abort error when the caller cancels", async () => {
+      mockFetch.mockImplementation(createHangingFetch());
+      const controller = new AbortController();
+      const { get } = useApi();
+
+      const pending = get("/users", { signal: controller.signal });
+      controller.abort();
+
+      const error = await pending.catch((err) => err);
+      expect(isAbortError(error)).toBe(true);
+      expect(error).not.toBeInstanceOf(NetworkError);
+    });
+  });
+
+  describe("retries", () => {
+    /**
+     * Creates an ofetch-like error for the given status and headers
+     */
+    const createFetchError = (
+      status: number,
+      headers: Record<string, string> = {}
+    ) =>
+      Object.assign(new Error(`HTTP ${status}`), {
+        status,
+        data: null,
+        response: { headers: new Headers(headers) },
+      });
+
+    it("retries transient server errors for idempotent requests", async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockRejectedValueOnce(createFetchError(503))
+        .mockResolvedValueOnce({ data: [] });
+      const { get } = useApi();
+
+      const pending = get("/users");
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toEqual({ data: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("turns off ofetch's own retries", async () => {
+      const { get } = useApi();
+
+      await get("/users");
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://localhost:8000/api/users",
+        expect.objectContaining({ retry: 0, retryDelay: 0 })
+      );
+    });
+
+    it("does not retry non-idempotent requests", async () => {
+      mockFetch.mockRejectedValue(createFetchError(503));
+      const { post } = useApi();
+
+      await expect(post("/users", {})).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("can be disabled per call", async () => {
+      mockFetch.mockRejectedValue(createFetchError(500));
+      const { get } = useApi();
+
+      await expect(get("/users", { retry: false })).rejects.toMatchObject({
+        status: 500,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("waits for the Retry-After header on 429 responses", async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockRejectedValueOnce(createFetchError(429, { "Retry-After": "2" }))
+        .mockResolvedValueOnce({ data: [] });
+      const { get } = useApi();
+
+      const pending = get("/users");
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual({ data: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+      vi.useFakeTimers();
+      mockFetch.mockRejectedValue(createFetchError(502));
+      const { get } = useApi();
+
+      const pending = get("/users", { retry: { retries: 2 } });
+      const assertion = expect(pending).rejects.toMatchObject({ status: 502 });
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("interceptors", () => {
+    it("runs request interceptors in order and applies their headers", async () => {
+      const calls: string[] = [];
+      const { get, interceptors } = useApi();
+
+      interceptors.request.use(async (context) => {
+        calls.push("first");
+        context.headers["X-Tenant"] = "acme";
+      });
+      interceptors.request.use((context) => {
+        calls.push("second");
+        return {
+          ...context,
+          headers: { ...context.headers, "X-Trace-Id": "trace-1" },
+        };
+      });
+
+      await get("/users");
+
+      expect(calls).toEqual(["first", "second"]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "http://localhost:8000/api/users",
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            "X-Tenant": "acme",
+            "X-Trace-Id": "trace-1",
+          }),
+        })
+      );
+    });
+
+    it("shares registered interceptors across useApi instances", async () => {
+      mockFetch.mockResolvedValue({ data: { id: 1 } });
+      useApi().interceptors.response.use(
+        (response) => (response as { data: unknown }).data
+      );
+
+      await expect(useApi().get("/users/1")).resolves.toEqual({ id: 1 });
+    });
+
+    it("lets error interceptors replace the thrown error", async () => {
+      mockFetch.mockRejectedValue(
+        Object.assign(new Error("Not Found"), { status: 404 })
+      );
+      const { get, interceptors } = useApi();
+      const replacement = new Error("Missing user");
+      interceptors.error.use(() => replacement);
+
+      await expect(get("/users/99")).rejects.toBe(replacement);
+    });
+
+    it("stops calling an interceptor once it is ejected", async () => {
+      const interceptor = vi.fn();
+      const { get, interceptors } = useApi();
+      const eject = interceptors.request.use(interceptor);
+
+      eject();
+      await get("/users");
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deduplication", () => {
+    it("coalesces concurrent identical GETs into one request", async () => {
+      const { get } = useApi();
+
+      const results = await Promise.all([
+        get("/users?page=1"),
+        get("/users?page=1"),
+        useApi().get("/users?page=1"),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([{ data: [] }, { data: [] }, { data: [] }]);
+    });
+
+    it("keeps requests with different headers apart", async () => {
+      const { get } = useApi();
+
+      await Promise.all([
+        get("/users", { headers: { "X-Tenant": "a" } }),
+        get("/users", { headers: { "X-Tenant": "b" } }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cancel other subscribers when one aborts", async () => {
+      let resolveFetch: (value: unknown) => void = () => {};
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => (resolveFetch = resolve))
+      );
+      const controller = new AbortController();
+      const { get } = useApi();
+
+      const cancelled = get("/users", { signal: controller.signal });
+      const kept = get("/users");
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      controller.abort();
+      resolveFetch({ data: ["kept"] });
+
+      expect(isAbortError(await cancelled.catch((err) => err))).toBe(true);
+      await expect(kept).resolves.toEqual({ data: ["kept"] });
+    });
+
+    it("can be disabled per call", async () => {
+      const { get } = useApi();
+
+      await Promise.all([
+        get("/users", { dedupe: false }),
+        get("/users", { dedupe: false }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("response contracts", () => {
+    const user = {
+      id: 1,
+      name: "Jane",
+      last_name: "Doe",
+      email: "jane@example.com",
+      role: "reviewer",
+      full_name: "Jane Doe",
+      created_at: "2024-01-01T00:00:00.000Z",
+      updated_at: "2024-01-01T00:00:00.000Z",
+    };
+
+    it("returns responses that match the contract", async () => {
+      mockFetch.mockResolvedValue(user);
+      const { get } = useApi();
+
+      await expect(
+        get("/users/1", { contract: userContract })
+      ).resolves.toEqual(user);
+    });
+
+    it("throws a ContractError naming the failing path", async () => {
+      mockFetch.mockResolvedValue({ ...user, role: "owner" });
+      const { get } = useApi();
+
+      const error = (await get("/users/1", {
+        contract: userContract,
+      }).catch((caught) => caught)) as ContractError;
+
+      expect(error).toBeInstanceOf(ContractError);
+      expect(error.path).toBe("role");
+      expect(error.message).toContain("GET /users/1");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports fields the contract does not know about", async () => {
+      mockFetch.mockResolvedValue({ ...user, display_name: "Jane" });
+      const { get } = useApi();
+
+      await expect(
+        get("/users/1", { contract: userContract })
+      ).rejects.toMatchObject({
+        issues: [expect.objectContaining({ path: "display_name" })],
+      });
+    });
+  });
+});
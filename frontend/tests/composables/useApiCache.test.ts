@@ -0,0 +1,269 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createApiCache,
+  resetApiCache,
+  useApiCache,
+} from "../../composables/useApiCache";
+import {
+  CACHE_SCHEMA_VERSION,
+  createSessionStorage,
+} from "../../utils/cache-storage";
+
+describe("useApiCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    resetApiCache();
+    window.sessionStorage.clear();
+  });
+
+  describe("shared instance", () => {
+    it("returns the same cache to every caller", () => {
+      useApiCache().set("/users", ["a"]);
+
+      expect(useApiCache()).toBe(useApiCache());
+      expect(useApiCache().get("/users")).toEqual(["a"]);
+    });
+
+    it("purges memory and storage", async () => {
+      const cache = useApiCache();
+      await cache.setStorage(createSessionStorage());
+      cache.set("/users", ["a"]);
+      await Promise.resolve();
+
+      await cache.purge();
+
+      expect(cache.get("/users")).toBeNull();
+      expect(window.sessionStorage.length).toBe(0);
+    });
+  });
+
+  describe("session storage", () => {
+    it("restores persisted entries into a new instance", async () => {
+      const first = createApiCache({ storage: createSessionStorage() });
+      first.set("/users", ["a"], 60_000, { tags: ["users"] });
+      await Promise.resolve();
+
+      const second = createApiCache({ storage: createSessionStorage() });
+      const loaded = await second.hydrate();
+
+      expect(loaded).toBe(1);
+      expect(second.get("/users")).toEqual(["a"]);
+      expect(second.invalidateTag("users")).toBe(1);
+      first.dispose();
+      second.dispose();
+    });
+
+    it("discards entries written with another schema version", async () => {
+      window.sessionStorage.setItem(
+        "api-cache:/users",
+        JSON.stringify({
+          version: CACHE_SCHEMA_VERSION + 1,
+          entry: { data: ["a"], timestamp: Date.now(), ttl: 60_000 },
+        })
+      );
+
+      const cache = createApiCache({ storage: createSessionStorage() });
+
+      expect(await cache.hydrate()).toBe(0);
+      expect(window.sessionStorage.getItem("api-cache:/users")).toBeNull();
+      cache.dispose();
+    });
+
+    it("does not persist entries above the size limit", async () => {
+      const cache = createApiCache({
+        storage: createSessionStorage({ maxEntryBytes: 100 }),
+      });
+      cache.set("/users", "x".repeat(200));
+      await Promise.resolve();
+
+      expect(cache.get("/users")).toBe("x".repeat(200));
+      expect(window.sessionStorage.length).toBe(0);
+      cache.dispose();
+    });
+
+    it("evicts the least recently used entries to stay within budget", async () => {
+      const cache = createApiCache({
+        storage: createSessionStorage({ maxBytes: 600 }),
+      });
+      cache.set("/a", "x".repeat(50));
+      cache.set("/b", "y".repeat(50));
+      cache.set("/c", "z".repeat(50));
+      await Promise.resolve();
+
+      expect(window.sessionStorage.getItem("api-cache:/a")).toBeNull();
+      expect(window.sessionStorage.getItem("api-cache:/c")).not.toBeNull();
+      cache.dispose();
+    });
+  });
+
+  describe("cachedRequest", () => {
+    it("returns cached data without calling the request again", async () => {
+      const { cachedRequest } = useApiCache();
+      const requestFn = vi.fn().mockResolvedValue({ data: [1] });
+
+      await cachedRequest("/users", requestFn);
+      const result = await cachedRequest("/users", requestFn);
+
+      expect(result).toEqual({ data: [1] });
+      expect(requestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("coalesces concurrent misses for the same key", async () => {
+      const requestFn = vi.fn().mockResolvedValue({ data: [] });
+
+      await Promise.all([
+        useApiCache().cachedRequest("/users?page=1", requestFn),
+        useApiCache().cachedRequest("/users?page=1", requestFn),
+      ]);
+
+      expect(requestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps the shared request alive when one caller aborts", async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      const requestFn = vi.fn(
+        () => new Promise((resolve) => (resolveRequest = resolve))
+      );
+      const controller = new AbortController();
+      const { cachedRequest } = useApiCache();
+
+      const cancelled = cachedRequest("/users?page=2", requestFn, {
+        signal: controller.signal,
+      });
+      const kept = cachedRequest("/users?page=2", requestFn);
+
+      controller.abort();
+      resolveRequest({ data: ["kept"] });
+
+      await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+      await expect(kept).resolves.toEqual({ data: ["kept"] });
+      expect(requestFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not share requests between instances", async () => {
+      const requestFn = vi.fn().mockResolvedValue({ data: [] });
+      const first = createApiCache();
+      const second = createApiCache();
+
+      await Promise.all([
+        first.cachedRequest("/users?page=3", requestFn),
+        second.cachedRequest("/users?page=3", requestFn),
+      ]);
+
+      expect(requestFn).toHaveBeenCalledTimes(2);
+      first.dispose();
+      second.dispose();
+    });
+
+    it("does not coalesce requests with different headers", async () => {
+      const requestFn = vi.fn().mockResolvedValue({ data: [] });
+      const { cachedRequest } = useApiCache();
+
+      await Promise.all([
+        cachedRequest("/users?page=4", requestFn, {
+          headers: { "Accept-Language": "en" },
+        }),
+        cachedRequest("/users?page=4", requestFn, {
+          headers: { "Accept-Language": "de" },
+        }),
+      ]);
+
+      expect(requestFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("tags", () => {
+    it("invalidates every entry carrying a tag", () => {
+      const { set, get, invalidateTag } = useApiCache();
+      set("/users?page=1", [1], undefined, { tags: ["users"] });
+      set("/users?page=2", [2], undefined, { tags: ["users"] });
+      set("/users/42", { id: 42 }, undefined, { tags: ["user:42"] });
+
+      expect(invalidateTag("users")).toBe(2);
+
+      expect(get("/users?page=1")).toBeNull();
+      expect(get("/users?page=2")).toBeNull();
+      expect(get("/users/42")).toEqual({ id: 42 });
+    });
+
+    it("tags entries stored by cachedRequest", async () => {
+      const { cachedRequest, invalidateTag } = useApiCache();
+      const requestFn = vi.fn().mockResolvedValue({ data: [] });
+
+      await cachedRequest("/users?tagged", requestFn, { tags: ["users"] });
+      invalidateTag("users");
+      await cachedRequest("/users?tagged", requestFn, { tags: ["users"] });
+
+      expect(requestFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not cache a response that was in flight during invalidation", async () => {
+      let resolveRequest: (value: unknown) => void = () => {};
+      const requestFn = vi
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (resolveRequest = resolve))
+        )
+        .mockResolvedValue({ data: ["fresh"] });
+      const { cachedRequest, invalidateTag, get } = useApiCache();
+
+      const stale = cachedRequest("/users?racing", requestFn, {
+        tags: ["users"],
+      });
+      invalidateTag("users");
+      const fresh = cachedRequest("/users?racing", requestFn, {
+        tags: ["users"],
+      });
+      resolveRequest({ data: ["stale"] });
+
+      await expect(stale).resolves.toEqual({ data: ["stale"] });
+      await expect(fresh).resolves.toEqual({ data: ["fresh"] });
+      expect(requestFn).toHaveBeenCalledTimes(2);
+      expect(get("/users?racing:")).toEqual({ data: ["fresh"] });
+    });
+  });
+
+  describe("stale-while-revalidate", () => {
+    it("returns stale data immediately and refreshes it in the background", async () => {
+      vi.useFakeTimers();
+      const { cachedRequest, isRevalidating } = useApiCache();
+      const onRevalidate = vi.fn();
+      let resolveRefresh: (value: unknown) => void = () => {};
+      const requestFn = vi
+        .fn()
+        .mockResolvedValueOnce({ version: 1 })
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (resolveRefresh = resolve))
+        );
+      const options = { ttl: 1000, staleWhileRevalidate: true, onRevalidate };
+
+      await cachedRequest("/users?swr", requestFn, options);
+      vi.advanceTimersByTime(1500);
+
+      const stale = await cachedRequest("/users?swr", requestFn, options);
+      expect(stale).toEqual({ version: 1 });
+      expect(isRevalidating.value).toBe(true);
+
+      resolveRefresh({ version: 2 });
+      await vi.waitFor(() => expect(isRevalidating.value).toBe(false));
+
+      expect(onRevalidate).toHaveBeenCalledWith({ version: 2 });
+      await expect(
+        cachedRequest("/users?swr", requestFn, options)
+      ).resolves.toEqual({ version: 2 });
+      expect(requestFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("refetches expired data when the mode is off", async () => {
+      vi.useFakeTimers();
+      const { cachedRequest } = useApiCache();
+      const requestFn = vi.fn().mockResolvedValue({ data: [] });
+
+      await cachedRequest("/users?strict", requestFn, { ttl: 1000 });
+      vi.advanceTimersByTime(1500);
+      await cachedRequest("/users?strict", requestFn, { ttl: 1000 });
+
+      expect(requestFn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import { API_SCHEMA } from "../../composables/useApiClient";
+import { createApiClient } from "../../utils/api-client";
+import { userListResponseContract } from "../../utils/api-contracts";
+
+const createTransport = () => ({
+  get: vi.fn().mockResolvedValue({}),
+  post: vi.fn().mockResolvedValue({}),
+  put: vi.fn().mockResolvedValue({}),
+  del: vi.fn().mockResolvedValue({}),
+});
+
+describe("useApiClient", () => {
+  it("serializes list queries and skips empty values", async () => {
+    const transport = createTransport();
+    const api = createApiClient(API_SCHEMA, transport);
+
+    await api.users.list(
+      { page: 2, search: "", role: "reviewer" },
+      { cache: true }
+    );
+
+    expect(transport.get).toHaveBeenCalledWith("/users?page=2&role=reviewer", {
+      cache: true,
+      contract: userListResponseContract,
+    });
+  });
+
+  it("fills path params and passes the body", async () => {
+    const transport = createTransport();
+    const api = createApiClient(API_SCHEMA, transport);
+    const body = {
+      name: "Jane",
+      last_name: "Doe",
+      email: "jane@example.com",
+      role: "administrator" as const,
+    };
+
+    await api.users.update(42, body);
+
+    expect(transport.put).toHaveBeenCalledWith(
+      "/users/42",
+      body,
+      expect.objectContaining({ contract: expect.any(Object) })
+    );
+  });
+
+  it("maps each method to the matching transport call", async () => {
+    const transport = createTransport();
+    const api = createApiClient(API_SCHEMA, transport);
+
+    await api.users.delete(7);
+    await api.auth.logout();
+    await api.system.health();
+
+    expect(transport.del).toHaveBeenCalledWith(
+      "/users/7",
+      expect.objectContaining({ contract: expect.any(Object) })
+    );
+    expect(transport.post).toHaveBeenCalledWith("/auth/logout", undefined, {});
+    expect(transport.get).toHaveBeenCalledWith("/health", {});
+  });
+});
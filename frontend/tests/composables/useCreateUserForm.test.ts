@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+const usersStore = vi.hoisted(() => ({ createUser: vi.fn() }));
+
+vi.mock("../../stores/users", () => ({
+  useUsersStore: () => usersStore,
+}));
+
+import { useCreateUserForm } from "../../composables/useCreateUserForm";
+import {
+  generateSecurePassword,
+  validatePasswordStrength,
+} from "../../utils/security";
+
+describe("useCreateUserForm", () => {
+  let form: ReturnType<typeof useCreateUserForm>;
+
+  beforeEach(() => {
+    form = useCreateUserForm();
+  });
+
+  it("validates only the requested fields", () => {
+    form.formData.value.name = "A";
+
+    expect(form.validateFields(["name", "last_name"])).toBe(false);
+    expect(form.fieldErrors("name")).toEqual([
+      "First Name must be at least 2 characters",
+    ]);
+    expect(form.fieldErrors("last_name")).toEqual(["Last Name is required"]);
+    expect(form.hasFieldError("email")).toBe(false);
+
+    form.formData.value.name = "Ada";
+    form.formData.value.last_name = "Lovelace";
+
+    expect(form.validateFields(["name", "last_name"])).toBe(true);
+    expect(form.hasFieldError("name")).toBe(false);
+  });
+
+  it("rates the password with validatePasswordStrength", () => {
+    expect(form.passwordStrength.value.score).toBe(0);
+
+    form.formData.value.password = "password";
+    expect(form.passwordStrength.value).toMatchObject({
+      isValid: false,
+      score: 2,
+      max: 5,
+    });
+
+    form.formData.value.password = "Password1!";
+    expect(form.passwordStrength.value).toMatchObject({
+      isValid: true,
+      score: 5,
+    });
+  });
+
+  it("generates a password that passes every strength rule", () => {
+    form.formData.value.password = "weak";
+    form.validateFields(["password"]);
+
+    const password = form.generatePassword();
+
+    expect(form.formData.value.password).toBe(password);
+    expect(form.hasFieldError("password")).toBe(false);
+    for (let i = 0; i < 50; i++) {
+      expect(validatePasswordStrength(generateSecurePassword()).isValid).toBe(
+        true
+      );
+    }
+  });
+
+  it("submits the form data through the store", async () => {
+    usersStore.createUser.mockResolvedValue(mockUsers.reviewer);
+    form.formData.value = {
+      name: "Reviewer",
+      last_name: "User",
+      email: "reviewer@example.com",
+      password: "Password1!",
+      role: "reviewer",
+    };
+
+    const result = await form.submit();
+
+    expect(usersStore.createUser).toHaveBeenCalledWith({
+      ...form.formData.value,
+      password_confirmation: "Password1!",
+    });
+    expect(result).toMatchObject({ success: true, data: mockUsers.reviewer });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseListQuery,
+  serializeListQuery,
+} from "../../composables/useListQuery";
+
+const defaults = {
+  page: 1,
+  per_page: 15,
+  search: "",
+  sort_by: "created_at",
+  sort_order: "desc",
+};
+
+const allowed = {
+  sort_by: ["id", "name", "created_at"],
+  sort_order: ["asc", "desc"],
+};
+
+describe("useListQuery", () => {
+  describe("parseListQuery", () => {
+    it("reads values from the route query", () => {
+      expect(
+        parseListQuery(
+          { page: "3", search: "jane", sort_by: "name", sort_order: "asc" },
+          defaults,
+          allowed
+        )
+      ).toEqual({
+        page: 3,
+        per_page: 15,
+        search: "jane",
+        sort_by: "name",
+        sort_order: "asc",
+      });
+    });
+
+    it("falls back to defaults for invalid or unknown values", () => {
+      expect(
+        parseListQuery(
+          { page: "-2", per_page: "abc", sort_by: "password" },
+          defaults,
+          allowed
+        )
+      ).toEqual(defaults);
+    });
+
+    it("uses the first value of repeated keys", () => {
+      expect(parseListQuery({ page: ["2", "5"] }, defaults).page).toBe(2);
+    });
+  });
+
+  describe("serializeListQuery", () => {
+    it("leaves out defaults and keeps unrelated keys", () => {
+      expect(
+        serializeListQuery(
+          { ...defaults, page: 2, search: "" },
+          defaults,
+          { search: "old", tab: "active" }
+        )
+      ).toEqual({ tab: "active", page: "2" });
+    });
+
+    it("round-trips through parseListQuery", () => {
+      const state = {
+        page: 4,
+        per_page: 50,
+        search: "doe",
+        sort_by: "id",
+        sort_order: "asc",
+      };
+
+      const query = serializeListQuery(state, defaults) as Record<
+        string,
+        string
+      >;
+
+      expect(parseListQuery(query, defaults, allowed)).toEqual(state);
+    });
+  });
+});
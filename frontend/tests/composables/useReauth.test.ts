@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  canReauthenticate,
+  useReauth,
+  waitForReauthentication,
+} from "../../composables/useReauth";
+
+describe("useReauth", () => {
+  it("only lets requests wait while a re-login modal is mounted", () => {
+    const { registerHandler } = useReauth();
+    expect(canReauthenticate()).toBe(false);
+
+    const unregister = registerHandler();
+    expect(canReauthenticate()).toBe(true);
+
+    unregister();
+    expect(canReauthenticate()).toBe(false);
+  });
+
+  it("releases every waiting request once the user signs in", async () => {
+    const { required, registerHandler, settle } = useReauth();
+    const unregister = registerHandler();
+
+    const first = waitForReauthentication();
+    const second = waitForReauthentication();
+    expect(required.value).toBe(true);
+
+    settle(true);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+    expect(required.value).toBe(false);
+    unregister();
+  });
+
+  it("gives up waiting requests when the last modal goes away", async () => {
+    const unregister = useReauth().registerHandler();
+    const pending = waitForReauthentication();
+
+    unregister();
+
+    await expect(pending).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ref, type Ref } from "vue";
+import { useUserSession } from "../../composables/useUserSession";
+import { mockUsers } from "../test-utils";
+
+describe("useUserSession", () => {
+  let state: Map<string, Ref<unknown>>;
+  let requestFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    state = new Map();
+    requestFetch = vi.fn();
+
+    vi.stubGlobal("useState", (key: string, init: () => unknown) => {
+      if (!state.has(key)) state.set(key, ref(init()));
+      return state.get(key);
+    });
+    vi.stubGlobal("useRequestFetch", () => requestFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("hydrates the user from the server session", async () => {
+    const { administrator } = mockUsers;
+    requestFetch.mockResolvedValue({
+      user: administrator,
+      loggedInAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const { fetch, user, loggedIn, ready } = useUserSession();
+    await expect(fetch()).resolves.toEqual(administrator);
+
+    expect(requestFetch).toHaveBeenCalledWith(
+      "/api/auth/session",
+      expect.objectContaining({ retry: false })
+    );
+    expect(user.value).toEqual(administrator);
+    expect(loggedIn.value).toBe(true);
+    expect(ready.value).toBe(true);
+  });
+
+  it("treats an empty or failing session request as signed out", async () => {
+    requestFetch.mockResolvedValueOnce({});
+
+    const { fetch, loggedIn, ready } = useUserSession();
+    await fetch();
+
+    expect(loggedIn.value).toBe(false);
+
+    requestFetch.mockRejectedValueOnce(new Error("Network error"));
+    await fetch();
+
+    expect(loggedIn.value).toBe(false);
+    expect(ready.value).toBe(true);
+  });
+
+  it("shares one session between callers and clears it", async () => {
+    requestFetch.mockResolvedValue({ user: mockUsers.reviewer });
+    await useUserSession().fetch();
+
+    const { user, clear } = useUserSession();
+    expect(user.value).toEqual(mockUsers.reviewer);
+
+    await clear();
+
+    expect(requestFetch).toHaveBeenLastCalledWith("/api/_auth/session", {
+      method: "DELETE",
+    });
+    expect(user.value).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { computeVirtualWindow } from "../../composables/useVirtualRows";
+
+describe("useVirtualRows", () => {
+  describe("computeVirtualWindow", () => {
+    it("renders the rows in view plus overscan", () => {
+      expect(
+        computeVirtualWindow({
+          scrollTop: 1000,
+          viewportHeight: 500,
+          rowHeight: 50,
+          total: 1000,
+          overscan: 5,
+        })
+      ).toEqual({ start: 15, end: 35, paddingTop: 750, paddingBottom: 48250 });
+    });
+
+    it("clamps the window to the list", () => {
+      expect(
+        computeVirtualWindow({
+          scrollTop: 0,
+          viewportHeight: 500,
+          rowHeight: 50,
+          total: 8,
+        })
+      ).toEqual({ start: 0, end: 8, paddingTop: 0, paddingBottom: 0 });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("login route", () => {
+  const fetchMock = vi.fn();
+  const user = { id: 1, email: "jane@example.com" };
+
+  const login = async () => {
+    const { default: handler } = await import(
+      "../../server/api/auth/login.post"
+    );
+    return (handler as any)({});
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal("defineEventHandler", (handler: unknown) => handler);
+    vi.stubGlobal("useRuntimeConfig", () => ({
+      public: { apiBase: "http://api.test/api" },
+    }));
+    vi.stubGlobal("readBody", async () => ({
+      email: "jane@example.com",
+      password: "secret",
+    }));
+    vi.stubGlobal("getRequestIP", () => "203.0.113.7");
+    vi.stubGlobal("replaceUserSession", vi.fn());
+    vi.stubGlobal("$fetch", fetchMock);
+    fetchMock.mockReset().mockResolvedValue({
+      data: { user, token: "token", expires_at: null },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("passes the client IP on so rate limits apply per client", async () => {
+    await expect(login()).resolves.toEqual({ user });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/auth/login",
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          "X-Forwarded-For": "203.0.113.7",
+        }),
+      })
+    );
+  });
+});
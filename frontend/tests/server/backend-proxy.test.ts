@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const API_BASE = "http://api.test/api";
+
+describe("backend proxy", () => {
+  let path: string;
+  const fetchMock = vi.fn();
+
+  const stubNitro = () => {
+    vi.stubGlobal("defineEventHandler", (handler: unknown) => handler);
+    vi.stubGlobal("useRuntimeConfig", () => ({
+      public: { apiBase: API_BASE },
+    }));
+    vi.stubGlobal("getRouterParam", () => path);
+    vi.stubGlobal("getRequestURL", () => new URL("http://app.test/"));
+    vi.stubGlobal("getRequestHeader", () => undefined);
+    vi.stubGlobal("getRequestIP", () => "203.0.113.7");
+    vi.stubGlobal("getUserSession", async () => ({
+      secure: { token: "token" },
+    }));
+    vi.stubGlobal("readRawBody", async () => undefined);
+    vi.stubGlobal("setResponseHeader", vi.fn());
+    vi.stubGlobal("setResponseStatus", vi.fn());
+    vi.stubGlobal("sendStream", vi.fn());
+    vi.stubGlobal("clearUserSession", vi.fn());
+    vi.stubGlobal("createError", (input: object) =>
+      Object.assign(new Error(), input)
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  };
+
+  const proxy = async () => {
+    const { default: handler } = await import(
+      "../../server/api/backend/[...path]"
+    );
+    return (handler as any)({ method: "GET" });
+  };
+
+  beforeEach(() => {
+    stubNitro();
+    fetchMock.mockReset().mockResolvedValue(new Response(null));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("forwards the path to the API base", async () => {
+    path = "users/42";
+
+    await proxy();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${API_BASE}/users/42`,
+      expect.objectContaining({ method: "GET" })
+    );
+  });
+
+  it("passes the client IP on to the backend", async () => {
+    path = "users";
+
+    await proxy();
+
+    expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({
+      "x-forwarded-for": "203.0.113.7",
+    });
+  });
+
+  it.each([
+    "../admin",
+    "users/../../internal",
+    "users/./42",
+    "users//42",
+    "%2e%2e/admin",
+    "users/..%5Cadmin",
+    "%E0%A4%A",
+  ])("rejects %s with 400", async (unsafe) => {
+    path = unsafe;
+
+    await expect(proxy()).rejects.toMatchObject({ statusCode: 400 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -126,7 +126,8 @@ vi.mock("~/composables/usePerformance", () => ({
 }));
 
 // Mock Nuxt composables with centralized configuration
-vi.mock("~/composables/useApi", () => ({
+vi.mock("~/composables/useApi", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/composables/useApi")>()),
   useApi: vi.fn(() => ({
     get: vi.fn().mockResolvedValue({}),
     post: vi.fn().mockResolvedValue({}),
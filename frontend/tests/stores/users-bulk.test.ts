@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+const api = vi.hoisted(() => ({
+  users: {
+    batchDelete: vi.fn(),
+    batchRole: vi.fn(),
+  },
+}));
+
+vi.mock("../../composables/useApiClient", () => ({
+  useApiClient: () => api,
+}));
+
+import { useUsersStore } from "../../stores/users";
+
+describe("Users Store bulk actions", () => {
+  const store = useUsersStore();
+  const { administrator, reviewer } = mockUsers;
+
+  beforeEach(() => {
+    store.users = [{ ...administrator }, { ...reviewer }];
+    store.pagination.total = 40;
+    store.clearSelection();
+    vi.spyOn(store, "refreshUsers").mockResolvedValue(undefined);
+  });
+
+  it("selects and deselects the users on the page", () => {
+    store.toggleUserSelection(99);
+    store.setPageSelection(true);
+
+    expect(store.selection.ids).toEqual([99, administrator.id, reviewer.id]);
+
+    store.setPageSelection(false);
+
+    expect(store.selection.ids).toEqual([99]);
+  });
+
+  it("keeps the other loaded rows when deselecting from all matching", () => {
+    store.selectAllMatching();
+    store.toggleUserSelection(administrator.id);
+
+    expect(store.selection).toEqual({ ids: [reviewer.id], allMatching: false });
+  });
+
+  it("sends ids and keeps the failed users selected", async () => {
+    api.users.batchDelete.mockResolvedValue({
+      data: {
+        results: [
+          {
+            id: administrator.id,
+            email: null,
+            success: false,
+            message: "You cannot delete your own account",
+          },
+          { id: reviewer.id, email: null, success: true, message: "Deleted" },
+        ],
+        summary: { total: 2, succeeded: 1, failed: 1 },
+      },
+    });
+    store.setPageSelection(true);
+
+    const result = await store.bulkDeleteUsers();
+
+    expect(api.users.batchDelete).toHaveBeenCalledWith({
+      ids: [administrator.id, reviewer.id],
+    });
+    expect(result.summary.failed).toBe(1);
+    expect(store.selection.ids).toEqual([administrator.id]);
+    expect(store.refreshUsers).toHaveBeenCalled();
+  });
+
+  it("sends the list filter when all matching users are selected", async () => {
+    api.users.batchRole.mockResolvedValue({
+      data: { results: [], summary: { total: 0, succeeded: 0, failed: 0 } },
+    });
+    store.selectAllMatching();
+
+    await store.bulkChangeRole("reviewer");
+
+    expect(api.users.batchRole).toHaveBeenCalledWith({
+      filter: expect.objectContaining({ search: null }),
+      role: "reviewer",
+    });
+  });
+});
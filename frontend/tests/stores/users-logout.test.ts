@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+vi.mock("../../composables/useApiClient", () => ({
+  useApiClient: () => ({ users: {} }),
+}));
+
+import { useUsersStore } from "../../stores/users";
+
+describe("Users Store logout", () => {
+  const store = useUsersStore();
+
+  it("forgets loaded users and queued mutations", async () => {
+    await store.enableOfflineMode();
+    store.users = [{ ...mockUsers.administrator }];
+    store.currentUser = { ...mockUsers.administrator };
+    store.trash.users = [{ ...mockUsers.reviewer }];
+    store.selection.ids = [mockUsers.administrator.id];
+    await store.queueMutation("delete", mockUsers.administrator.id);
+    expect(store.pendingMutations).toHaveLength(1);
+
+    await store.clearSessionData();
+
+    expect(store.users).toEqual([]);
+    expect(store.currentUser).toBeNull();
+    expect(store.trash.users).toEqual([]);
+    expect(store.selection.ids).toEqual([]);
+    expect(store.pendingMutations).toEqual([]);
+    expect(store.offline.enabled).toBe(true);
+
+    // Nothing is left to restore for the next user
+    await store.enableOfflineMode();
+    expect(store.pendingMutations).toEqual([]);
+  });
+});
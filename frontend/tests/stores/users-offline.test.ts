@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+const api = vi.hoisted(() => ({
+  users: { create: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock("../../composables/useApiClient", () => ({
+  useApiClient: () => api,
+}));
+
+import { useUsersStore } from "../../stores/users";
+
+describe("Users Store offline queue", () => {
+  const store = useUsersStore();
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("asks for the password of a create restored after a reload", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    api.users.create.mockResolvedValue({ data: { ...mockUsers.reviewer } });
+
+    await store.enableOfflineMode();
+    await store.queueMutation("create", -1, {
+      name: "New",
+      last_name: "User",
+      email: "new@example.com",
+      password: "Secret123!",
+      role: "reviewer",
+    });
+
+    // The reload restores the queue from storage, which has no password
+    await store.enableOfflineMode();
+    const [restored] = store.pendingMutations;
+    expect(restored).toMatchObject({
+      status: "conflict",
+      conflict: { errors: { password: expect.any(Array) } },
+    });
+
+    await store.retryMutation(restored!.id);
+    expect(api.users.create).not.toHaveBeenCalled();
+
+    await store.retryMutation(restored!.id, { password: "Secret123!" });
+    expect(api.users.create).toHaveBeenCalledWith(
+      expect.objectContaining({ password: "Secret123!" })
+    );
+    expect(store.pendingMutations).toEqual([]);
+  });
+
+  it("asks again for a password changed by a restored update", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const { id } = mockUsers.reviewer;
+    api.users.update.mockResolvedValue({ data: { ...mockUsers.reviewer } });
+
+    await store.enableOfflineMode();
+    await store.queueMutation("update", id, {
+      name: "Jane",
+      last_name: "Doe",
+      email: "jane@example.com",
+      password: "NewSecret123!",
+      role: "reviewer",
+    });
+
+    await store.enableOfflineMode();
+    const [restored] = store.pendingMutations;
+    expect(restored).toMatchObject({ type: "update", status: "conflict" });
+
+    await store.retryMutation(restored!.id, {
+      password: "NewSecret123!",
+      password_confirmation: "NewSecret123!",
+    });
+    expect(api.users.update).toHaveBeenCalledWith(
+      id,
+      expect.objectContaining({ password: "NewSecret123!" })
+    );
+    expect(store.pendingMutations).toEqual([]);
+  });
+});
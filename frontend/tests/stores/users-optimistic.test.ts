@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+const api = vi.hoisted(() => ({
+  users: {
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock("../../composables/useApiClient", () => ({
+  useApiClient: () => api,
+}));
+
+import { useUsersStore } from "../../stores/users";
+
+describe("Users Store optimistic mutations", () => {
+  const store = useUsersStore();
+  const { administrator, reviewer } = mockUsers;
+
+  beforeEach(() => {
+    store.users = [{ ...administrator }, { ...reviewer }];
+    store.pagination.total = 2;
+  });
+
+  it("patches the row before the server responds and reconciles after", async () => {
+    let respond: (value: unknown) => void = () => {};
+    api.users.update.mockReturnValue(
+      new Promise((resolve) => {
+        respond = resolve;
+      })
+    );
+
+    const pending = store.updateUser(reviewer.id, {
+      ...reviewer,
+      name: "Optimistic",
+    });
+
+    expect(store.users[1]?.name).toBe("Optimistic");
+
+    respond({
+      data: { ...reviewer, name: "Canonical", updated_at: "2024-03-01" },
+    });
+    await pending;
+
+    expect(store.users[1]).toMatchObject({
+      name: "Canonical",
+      updated_at: "2024-03-01",
+    });
+  });
+
+  it("rolls back an update the server rejects", async () => {
+    api.users.update.mockRejectedValue(new Error("Server error"));
+
+    await expect(
+      store.updateUser(reviewer.id, { ...reviewer, name: "Rejected" })
+    ).rejects.toThrow("Server error");
+
+    expect(store.users[1]?.name).toBe(reviewer.name);
+  });
+
+  it("restores a deleted user in place when the delete fails", async () => {
+    api.users.delete.mockRejectedValue(new Error("Server error"));
+
+    const pending = store.deleteUser(administrator.id);
+    expect(store.users.map((user) => user.id)).toEqual([reviewer.id]);
+
+    await expect(pending).rejects.toThrow("Server error");
+
+    expect(store.users.map((user) => user.id)).toEqual([
+      administrator.id,
+      reviewer.id,
+    ]);
+    expect(store.pagination.total).toBe(2);
+  });
+});
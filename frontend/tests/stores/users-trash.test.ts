@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockUsers } from "../test-utils";
+
+const api = vi.hoisted(() => ({
+  users: {
+    trash: vi.fn(),
+    restore: vi.fn(),
+    purge: vi.fn(),
+  },
+}));
+
+vi.mock("../../composables/useApiClient", () => ({
+  useApiClient: () => api,
+}));
+
+import { useUsersStore } from "../../stores/users";
+
+describe("Users Store trash", () => {
+  const store = useUsersStore();
+  const deleted = {
+    ...mockUsers.reviewer,
+    deleted_at: "2024-02-01T10:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    store.trash.users = [{ ...deleted }];
+    store.trash.pagination.total = 1;
+    store.currentUser = null;
+  });
+
+  it("loads a page of deleted users", async () => {
+    api.users.trash.mockResolvedValue({
+      data: [deleted],
+      meta: {
+        current_page: 2,
+        last_page: 3,
+        per_page: 15,
+        total: 31,
+        from: 16,
+        to: 16,
+      },
+    });
+
+    await store.fetchTrashedUsers(2);
+
+    expect(api.users.trash).toHaveBeenCalledWith(
+      { page: 2, per_page: 15 },
+      expect.objectContaining({ cache: true })
+    );
+    expect(store.trash.users).toEqual([deleted]);
+    expect(store.trash.pagination).toMatchObject({
+      currentPage: 2,
+      lastPage: 3,
+      total: 31,
+    });
+  });
+
+  it("takes restored users out of the trash", async () => {
+    const restored = { ...deleted, deleted_at: null };
+    api.users.restore.mockResolvedValue({ data: restored });
+    store.currentUser = { ...deleted };
+
+    const result = await store.restoreUser(deleted.id);
+
+    expect(api.users.restore).toHaveBeenCalledWith(deleted.id);
+    expect(result).toEqual(restored);
+    expect(store.trash.users).toEqual([]);
+    expect(store.trash.pagination.total).toBe(0);
+    expect(store.currentUser).toEqual(restored);
+  });
+
+  it("keeps the user in the trash when purging fails", async () => {
+    api.users.purge.mockRejectedValue({ status: 500 });
+
+    await expect(store.purgeUser(deleted.id)).rejects.toEqual({ status: 500 });
+
+    expect(store.trash.users).toHaveLength(1);
+    expect(store.error).toBe("Failed to permanently delete user");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { userListResponseContract } from "../../utils/api-contracts";
+import { validateContract } from "../../utils/contracts";
+// GET /api/users?per_page=2 as UserCollection and UserResource render it
+import usersIndex from "../fixtures/users-index.json";
+
+describe("api contracts", () => {
+  describe("userListResponseContract", () => {
+    it("accepts the backend's user list", () => {
+      expect(validateContract(userListResponseContract, usersIndex)).toEqual(
+        []
+      );
+    });
+
+    it("rejects Laravel's default pagination merged into the meta", () => {
+      const merged = {
+        ...usersIndex,
+        meta: {
+          ...usersIndex.meta,
+          current_page: [1, 1],
+          path: "http://localhost:8000/api/users",
+        },
+      };
+
+      expect(validateContract(userListResponseContract, merged)).toEqual([
+        expect.objectContaining({ path: "meta.current_page" }),
+        expect.objectContaining({ path: "meta.path" }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createIdleTracker,
+  type SessionChannel,
+  type SessionMessage,
+} from "../../utils/idle-tracker";
+
+/**
+ * Pair of channels delivering messages to each other, like two tabs
+ */
+const createChannelPair = (): [SessionChannel, SessionChannel] => {
+  const create = (): SessionChannel & { peer?: SessionChannel } => ({
+    onmessage: null,
+    postMessage(message: SessionMessage) {
+      this.peer?.onmessage?.({ data: message } as MessageEvent<SessionMessage>);
+    },
+    close: vi.fn(),
+  });
+  const first = create();
+  const second = create();
+  first.peer = second;
+  second.peer = first;
+  return [first, second];
+};
+
+describe("createIdleTracker", () => {
+  const callbacks = () => ({
+    onTick: vi.fn(),
+    onTimeout: vi.fn(),
+    onRemoteLogout: vi.fn(),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("times out once after the idle period", () => {
+    const options = callbacks();
+    const tracker = createIdleTracker({
+      timeout: 5000,
+      channel: null,
+      ...options,
+    });
+
+    vi.advanceTimersByTime(4000);
+    expect(options.onTick).toHaveBeenLastCalledWith(1000);
+    expect(options.onTimeout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(3000);
+    expect(options.onTimeout).toHaveBeenCalledTimes(1);
+    tracker.stop();
+  });
+
+  it("keeps every tab alive while one of them is active", () => {
+    const [firstChannel, secondChannel] = createChannelPair();
+    const first = callbacks();
+    const second = callbacks();
+    const firstTab = createIdleTracker({
+      timeout: 5000,
+      channel: firstChannel,
+      ...first,
+    });
+    const secondTab = createIdleTracker({
+      timeout: 5000,
+      channel: secondChannel,
+      ...second,
+    });
+
+    vi.advanceTimersByTime(4000);
+    firstTab.recordActivity();
+    vi.advanceTimersByTime(4000);
+
+    expect(first.onTimeout).not.toHaveBeenCalled();
+    expect(second.onTimeout).not.toHaveBeenCalled();
+    expect(second.onTick).toHaveBeenLastCalledWith(1000);
+
+    firstTab.stop();
+    secondTab.stop();
+  });
+
+  it("tells the other tabs about a logout", () => {
+    const [firstChannel, secondChannel] = createChannelPair();
+    const second = callbacks();
+    const firstTab = createIdleTracker({
+      timeout: 0,
+      channel: firstChannel,
+      ...callbacks(),
+    });
+    const secondTab = createIdleTracker({
+      timeout: 0,
+      channel: secondChannel,
+      ...second,
+    });
+
+    firstTab.announceLogout();
+
+    expect(second.onRemoteLogout).toHaveBeenCalledTimes(1);
+    firstTab.stop();
+    secondTab.stop();
+    expect(secondChannel.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { User } from "../../types/index";
+import {
+  applyQueuedMutations,
+  createMemoryQueueStorage,
+  enqueueMutation,
+  restoreQueuedMutations,
+  type QueuedMutation,
+} from "../../utils/mutation-queue";
+
+const user: User = {
+  id: 1,
+  name: "Jane",
+  last_name: "Doe",
+  email: "jane@example.com",
+  role: "reviewer",
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+};
+
+const mutation = (overrides: Partial<QueuedMutation>): QueuedMutation => ({
+  id: 1,
+  type: "update",
+  userId: 1,
+  queuedAt: "2024-02-01T00:00:00.000Z",
+  status: "pending",
+  ...overrides,
+});
+
+const createPayload = {
+  name: "New",
+  last_name: "User",
+  email: "new@example.com",
+  password: "Secret123!",
+  role: "reviewer" as const,
+};
+
+describe("mutation queue", () => {
+  describe("enqueueMutation", () => {
+    it("folds edits of an offline-created user into its create", () => {
+      const create = mutation({
+        type: "create",
+        userId: -1,
+        payload: createPayload,
+      });
+
+      const { queue, removed } = enqueueMutation(
+        [create],
+        mutation({
+          id: 2,
+          userId: -1,
+          payload: { ...createPayload, name: "Renamed" },
+        })
+      );
+
+      expect(removed).toEqual([]);
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toMatchObject({
+        type: "create",
+        payload: { name: "Renamed" },
+      });
+    });
+
+    it("drops the create when an offline-created user is deleted", () => {
+      const create = mutation({
+        type: "create",
+        userId: -1,
+        payload: createPayload,
+      });
+
+      const { queue, removed } = enqueueMutation(
+        [create],
+        mutation({ id: 2, type: "delete", userId: -1 })
+      );
+
+      expect(queue).toEqual([]);
+      expect(removed).toEqual([create]);
+    });
+
+    it("keeps replay order and replaces superseded updates", () => {
+      const first = mutation({ id: 1, userId: 1, payload: createPayload });
+      const other = mutation({ id: 2, userId: 2, payload: createPayload });
+      const deletion = mutation({ id: 3, type: "delete", userId: 1 });
+
+      const { queue, removed } = enqueueMutation([first, other], deletion);
+
+      expect(queue).toEqual([other, deletion]);
+      expect(removed).toEqual([first]);
+    });
+  });
+
+  describe("applyQueuedMutations", () => {
+    it("shows creates, updates and deletes on top of server data", () => {
+      const second = { ...user, id: 2 };
+
+      const result = applyQueuedMutations(
+        [user, second],
+        [
+          mutation({
+            id: 1,
+            type: "create",
+            userId: -1,
+            payload: createPayload,
+          }),
+          mutation({ id: 2, userId: 1, payload: { ...user, name: "Janet" } }),
+          mutation({ id: 3, type: "delete", userId: 2 }),
+        ]
+      );
+
+      expect(result.map(({ id, name }) => [id, name])).toEqual([
+        [-1, "New"],
+        [1, "Janet"],
+      ]);
+    });
+  });
+
+  describe("storage", () => {
+    it("never persists passwords", async () => {
+      const storage = createMemoryQueueStorage();
+
+      await storage.put(mutation({ type: "create", payload: createPayload }));
+      const [stored] = await storage.load();
+
+      expect(stored?.payload).not.toHaveProperty("password");
+      expect(stored?.payload).toMatchObject({ email: "new@example.com" });
+    });
+
+    it("flags restored mutations whose password was not persisted", async () => {
+      const storage = createMemoryQueueStorage();
+      const { password, ...details } = createPayload;
+
+      await storage.put(mutation({ id: 1, payload: details }));
+      await storage.put(mutation({ id: 2, payload: { ...details, password } }));
+      const [kept, stripped] = restoreQueuedMutations(await storage.load());
+
+      expect(kept?.status).toBe("pending");
+      expect(stripped).toMatchObject({
+        status: "conflict",
+        conflict: {
+          errors: { password: [expect.stringContaining("update")] },
+        },
+      });
+    });
+  });
+});
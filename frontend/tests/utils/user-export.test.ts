@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { User } from "../../types/index";
+import {
+  USER_EXPORT_COLUMNS,
+  createExportWriter,
+  toCsvLines,
+} from "../../utils/user-export";
+
+const user = (overrides: Partial<User> = {}): User => ({
+  id: 1,
+  name: "Ada",
+  last_name: "Lovelace",
+  email: "ada@example.com",
+  role: "administrator",
+  created_at: "2024-01-02T03:04:05.000000Z",
+  updated_at: "2024-01-02T03:04:05.000000Z",
+  ...overrides,
+});
+
+const readBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe("user export", () => {
+  it("quotes CSV values containing separators, quotes or line breaks", () => {
+    expect(toCsvLines([["plain", 'say "hi"', "a,b", "two\nlines", null, 3]]))
+      .toBe('plain,"say ""hi""","a,b","two\nlines",,3\r\n');
+  });
+
+  it("neutralizes values a spreadsheet would run as a formula", () => {
+    expect(toCsvLines([["=SUM(A1)", "+1", "-1", "@cmd", "ok"]])).toBe(
+      "'=SUM(A1),'+1,'-1,'@cmd,ok\r\n"
+    );
+  });
+
+  it("writes the selected columns in chunks after a header", async () => {
+    const columns = USER_EXPORT_COLUMNS.filter((column) =>
+      ["id", "email", "created_at"].includes(String(column.key))
+    );
+    const writer = createExportWriter("csv", columns);
+
+    writer.write([user()]);
+    writer.write([user({ id: 2, email: "grace@example.com" })]);
+
+    const bytes = await readBytes(writer.finish());
+    const text = new TextDecoder("utf-8", { ignoreBOM: true }).decode(bytes);
+    expect(text).toBe(
+      "\uFEFFID,Email,Registration Date\r\n" +
+        "1,ada@example.com,2024-01-02T03:04:05.000Z\r\n" +
+        "2,grace@example.com,2024-01-02T03:04:05.000Z\r\n"
+    );
+  });
+
+  it("packs XLSX exports as a ZIP workbook", async () => {
+    const writer = createExportWriter("xlsx", USER_EXPORT_COLUMNS);
+    writer.write([user({ name: "<Ada & co>" })]);
+
+    const blob = writer.finish();
+    const bytes = await readBytes(blob);
+    const content = new TextDecoder().decode(bytes);
+
+    expect(blob.type).toBe(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    // "PK\x03\x04": local file header of the first ZIP entry
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(content).toContain("xl/worksheets/sheet1.xml");
+    expect(content).toContain("&lt;Ada &amp; co&gt;");
+    expect(content).toContain('<c r="A2"><v>1</v></c>');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildImportRows,
+  guessColumnMapping,
+  isValidImportRow,
+  parseCsv,
+} from "../../utils/user-import";
+
+const HEADER = ["First Name", "last_name", "E-mail", "password", "Role"];
+const VALID = ["Ada", "Lovelace", "Ada@Example.com", "Secret123!", "Reviewer"];
+
+describe("user import", () => {
+  it("parses quoted fields, escaped quotes and CRLF line endings", () => {
+    const text = '\uFEFFname,note\r\n"Doe, Jane","say ""hi""\nthere"\r\n\r\nBob,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'say "hi"\nthere'],
+      ["Bob", ""],
+    ]);
+  });
+
+  it("guesses the column of each field from the header", () => {
+    expect(guessColumnMapping(HEADER)).toEqual({
+      name: 0,
+      last_name: 1,
+      email: 2,
+      password: 3,
+      role: 4,
+    });
+    expect(guessColumnMapping(["Surname", "Unknown"])).toMatchObject({
+      last_name: 0,
+      name: null,
+    });
+  });
+
+  it("normalizes valid rows and numbers them by their line in the file", () => {
+    const [row] = buildImportRows([VALID], guessColumnMapping(HEADER));
+
+    expect(row).toEqual({
+      line: 2,
+      data: {
+        name: "Ada",
+        last_name: "Lovelace",
+        email: "ada@example.com",
+        password: "Secret123!",
+        role: "reviewer",
+      },
+      errors: {},
+    });
+    expect(isValidImportRow(row!)).toBe(true);
+  });
+
+  it("reports field errors with the create form rules", () => {
+    const [row] = buildImportRows(
+      [["A", "Lovelace", "not-an-email", "weak", "owner"]],
+      guessColumnMapping(HEADER)
+    );
+
+    expect(row!.errors).toEqual({
+      name: ["First Name must be at least 2 characters"],
+      email: ["Email must be a valid email address"],
+      password: ["Password must be at least 8 characters long"],
+      role: ["Role must be administrator or reviewer"],
+    });
+    expect(isValidImportRow(row!)).toBe(false);
+  });
+
+  it("flags emails repeated within the file", () => {
+    const rows = buildImportRows(
+      [VALID, ["Grace", "Hopper", "ada@example.com", "Secret123!", "reviewer"]],
+      guessColumnMapping(HEADER)
+    );
+
+    expect(rows[0]!.errors).toEqual({});
+    expect(rows[1]!.errors).toEqual({
+      email: ["Email appears earlier in the file"],
+    });
+  });
+});
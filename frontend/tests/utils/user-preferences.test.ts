@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  loadUserPreferences,
+  saveUserPreferences,
+} from "../../utils/user-preferences";
+
+describe("user preferences", () => {
+  beforeEach(() => {
+    // The global setup stubs localStorage with no-ops; these tests need one that stores
+    const items = new Map<string, string>();
+    Object.defineProperty(window, "localStorage", {
+      value: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+        clear: () => items.clear(),
+      },
+      writable: true,
+    });
+  });
+
+  it("keeps preferences separate per user", () => {
+    saveUserPreferences(1, { usersPerPage: 50 });
+    saveUserPreferences(2, { usersPerPage: 10 });
+
+    expect(loadUserPreferences(1)).toEqual({ usersPerPage: 50 });
+    expect(loadUserPreferences(2)).toEqual({ usersPerPage: 10 });
+    expect(loadUserPreferences(null)).toEqual({});
+  });
+
+  it("ignores unreadable entries", () => {
+    window.localStorage.setItem("user-preferences:1", "{not json");
+
+    expect(loadUserPreferences(1)).toEqual({});
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Session data stored by nuxt-auth-utils
+ * The Sanctum token is kept in `secure`, which is only readable in server code
+ */
+import type { AuthUser } from "./index";
+
+declare module "#auth-utils" {
+  interface User extends AuthUser {}
+
+  interface UserSession {
+    loggedInAt?: string;
+    expiresAt?: string; // When the token in `secure` stops working
+  }
+
+  interface SecureSessionData {
+    token: string;
+  }
+}
+
+export {};
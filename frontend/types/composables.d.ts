@@ -7,7 +7,10 @@ export interface AuthComposable {
   isLoading: Ref<boolean>;
   error: Ref<string | null>;
   login: (credentials: LoginCredentials) => Promise<void>;
-  logout: () => Promise<void>;
+  logout: (
+    redirect?: boolean,
+    options?: { allDevices?: boolean }
+  ) => Promise<boolean>;
   refreshSession: () => Promise<void>;
   clearError: () => void;
   hasRole: (role: UserRole) => boolean;
@@ -85,6 +88,7 @@ export interface SubmitOptions {
 
 export interface RequestOptions {
   headers?: Record<string, string>;
+  signal?: AbortSignal;
   timeout?: number;
 }
 
@@ -23,6 +23,7 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  REQUEST_TIMEOUT: 408,
   UNPROCESSABLE_ENTITY: 422,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
@@ -39,6 +40,7 @@ export interface User {
   last_name: string;
   email: string;
   role: UserRole;
+  readonly full_name?: string; // Computed by the backend
   readonly created_at: string;
   readonly updated_at: string;
   readonly deleted_at?: string | null;
@@ -75,6 +77,7 @@ export interface AuthUser {
   last_name: string;
   email: string;
   role: UserRole;
+  readonly full_name?: string;
 }
 
 // ============================================================================
@@ -109,10 +112,112 @@ export interface ValidationErrorResponse {
 export interface LoginResponse {
   user: AuthUser;
   token: string;
+  expires_at: string | null; // Null when tokens never expire
 }
 
-/** User list response with pagination */
-export interface UserListResponse extends PaginatedResponse<User> {}
+/** Envelope the backend wraps every successful response in (ApiResponseTrait) */
+export interface ApiEnvelope<T = unknown> {
+  success: boolean;
+  message: string;
+  data: T;
+}
+
+/** Pagination metadata returned alongside resource collections */
+export interface PaginationMeta {
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+  from: number | null;
+  to: number | null;
+}
+
+/** Pagination links returned alongside resource collections */
+export interface PaginationLinks {
+  first: string | null;
+  last: string | null;
+  prev: string | null;
+  next: string | null;
+}
+
+/** Paginated resource collection as returned by the backend */
+export interface CollectionResponse<T = unknown> extends ApiEnvelope<T[]> {
+  meta: PaginationMeta;
+  links: PaginationLinks;
+}
+
+/** User list response with pagination (UserCollection) */
+export interface UserListResponse extends CollectionResponse<User> {}
+
+/** Columns the user list can be sorted by (UserService::SORTABLE_COLUMNS) */
+export const USER_SORT_COLUMNS = [
+  "id",
+  "name",
+  "email",
+  "role",
+  "created_at",
+] as const;
+
+export type UserSortColumn = (typeof USER_SORT_COLUMNS)[number];
+
+/** How the user list is browsed: page by page, or loading more while scrolling */
+export type UserListMode = "paginated" | "infinite";
+
+/** Which users the list page shows: active ones, or soft deleted ones in the trash */
+export type UserListView = "active" | "trash";
+
+/** Page sizes offered by list views (IndexUserRequest allows 1-100) */
+export const PAGE_SIZE_OPTIONS = [10, 15, 25, 50, 100] as const;
+
+/** Query parameters accepted by the user list endpoint */
+export interface UserListQuery extends Omit<PaginationParams, "sort_by"> {
+  sort_by?: UserSortColumn;
+}
+
+/**
+ * Users targeted by a batch operation: explicit ids, or every user matching
+ * the list filters
+ */
+export type BatchSelection =
+  | { ids: number[] }
+  | { filter: { search: string | null; role: UserRole | null } };
+
+export type BatchRoleChange = BatchSelection & { role: UserRole };
+
+/** Bulk action chosen in the user list */
+export type BulkAction = { type: "delete" } | { type: "role"; role: UserRole };
+
+/** Outcome of a batch operation for one user */
+export interface BatchUserResult {
+  id: number;
+  email: string | null;
+  success: boolean;
+  message: string;
+}
+
+/** Payload returned by the batch endpoints */
+export interface BatchUserResponse {
+  results: BatchUserResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+}
+
+/** Payload returned after deleting a user */
+export interface DeletedUserResponse {
+  id: number;
+  email: string;
+  deleted_at: string;
+}
+
+/** Health check response */
+export interface HealthResponse {
+  status: string;
+  message: string;
+  timestamp: string;
+}
 
 // ============================================================================
 // ERROR TYPES
@@ -177,9 +282,12 @@ export interface PaginationParams {
   search?: string;
   role?: UserRole;
   sort_by?: string;
-  sort_order?: "asc" | "desc";
+  sort_order?: SortOrder;
 }
 
+/** Sort direction for list requests */
+export type SortOrder = "asc" | "desc";
+
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
@@ -0,0 +1,162 @@
+/**
+ * Typed API client built from a declarative endpoint schema
+ * Each endpoint declares its method, path, query, body and response types once;
+ * the client derives call signatures from them so callers never pick generics
+ */
+
+import type {
+  CallOptions,
+  GetOptions,
+  HttpMethod,
+  useApi,
+} from "../composables/useApi";
+import type { Contract } from "./contracts";
+
+/** Single endpoint; `query` and `body` are type markers, present only when the endpoint takes them */
+export interface EndpointDefinition {
+  method: HttpMethod;
+  path: string; // Relative to apiBase, path params written as `:name`
+  query?: unknown;
+  body?: unknown;
+  response: unknown;
+  contract?: Contract<unknown>; // Checked against every response, see useApi
+}
+
+/** Endpoints grouped by resource, e.g. `users.list` */
+export type ApiSchema = Record<string, Record<string, EndpointDefinition>>;
+
+/** One argument per `:param` in a path, in order */
+type PathArgs<P extends string> =
+  P extends `${string}:${string}/${infer Rest}`
+    ? [string | number, ...PathArgs<`/${Rest}`>]
+    : P extends `${string}:${string}`
+      ? [string | number]
+      : [];
+
+type EndpointOptions<E extends EndpointDefinition> = E["method"] extends "GET"
+  ? GetOptions
+  : CallOptions;
+
+/** Call arguments: path params, then body, then query, then per-call options */
+export type EndpointArgs<E extends EndpointDefinition> = [
+  ...PathArgs<E["path"]>,
+  ...("body" extends keyof E ? [body: E["body"]] : []),
+  ...("query" extends keyof E ? [query?: E["query"]] : []),
+  options?: EndpointOptions<E>,
+];
+
+export type EndpointResponse<E extends EndpointDefinition> = E["response"];
+
+export type ApiClient<S extends ApiSchema> = {
+  [Group in keyof S]: {
+    [Name in keyof S[Group]]: (
+      ...args: EndpointArgs<S[Group][Name]>
+    ) => Promise<EndpointResponse<S[Group][Name]>>;
+  };
+};
+
+type ApiTransport = Pick<
+  ReturnType<typeof useApi>,
+  "get" | "post" | "put" | "del"
+>;
+
+/**
+ * Type marker for schema fields; the value only exists to carry the type
+ */
+export const shape = <T>(): T => undefined as T;
+
+/**
+ * Declare an endpoint schema, keeping literal methods and paths for type inference
+ */
+export const defineApiSchema = <const S extends ApiSchema>(schema: S): S =>
+  schema;
+
+/**
+ * Serialize query params, skipping empty values
+ */
+export const buildQueryString = (query: unknown): string => {
+  if (!query || typeof query !== "object") {
+    return "";
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+
+  const serialized = params.toString();
+  return serialized ? `?${serialized}` : "";
+};
+
+/**
+ * Substitute `:params` in a path with the given values
+ */
+export const buildPath = (
+  path: string,
+  params: readonly (string | number)[]
+): string => {
+  let index = 0;
+  return path.replace(/:(\w+)/g, (_, name: string) => {
+    const value = params[index++];
+    if (value === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+};
+
+/**
+ * Build a callable endpoint that splits its arguments according to the definition
+ */
+const createEndpointCaller =
+  (definition: EndpointDefinition, transport: ApiTransport) =>
+  (...args: unknown[]): Promise<unknown> => {
+    const paramCount = (definition.path.match(/:\w+/g) ?? []).length;
+    const params = args.slice(0, paramCount) as (string | number)[];
+    let index = paramCount;
+    const body = "body" in definition ? args[index++] : undefined;
+    const query = "query" in definition ? args[index++] : undefined;
+    const options = {
+      ...(definition.contract && { contract: definition.contract }),
+      ...(args[index] as GetOptions | undefined),
+    };
+
+    const endpoint =
+      buildPath(definition.path, params) + buildQueryString(query);
+
+    switch (definition.method) {
+      case "GET":
+        return transport.get(endpoint, options);
+      case "POST":
+        return transport.post(endpoint, body, options);
+      case "PUT":
+        return transport.put(endpoint, body, options);
+      case "DELETE":
+        return transport.del(endpoint, options);
+    }
+  };
+
+/**
+ * Create a typed client for a schema on top of useApi()
+ */
+export const createApiClient = <S extends ApiSchema>(
+  schema: S,
+  transport: ApiTransport
+): ApiClient<S> => {
+  const client: Record<string, Record<string, unknown>> = {};
+
+  for (const [group, endpoints] of Object.entries(schema)) {
+    client[group] = {};
+    for (const [name, definition] of Object.entries(endpoints)) {
+      client[group][name] = createEndpointCaller(definition, transport);
+    }
+  }
+
+  return client as ApiClient<S>;
+};
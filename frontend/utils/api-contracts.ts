@@ -0,0 +1,116 @@
+/**
+ * Contracts for the domain types in types/index.ts
+ * Mirrors the backend resources (UserResource, UserCollection, AuthController)
+ */
+
+import {
+  USER_ROLES,
+  type ApiEnvelope,
+  type AuthUser,
+  type BatchUserResponse,
+  type BatchUserResult,
+  type DeletedUserResponse,
+  type LoginResponse,
+  type PaginationLinks,
+  type PaginationMeta,
+  type User,
+  type UserListResponse,
+} from "../types/index";
+import {
+  array,
+  boolean,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+  type Contract,
+} from "./contracts";
+
+const role = literal(...Object.values(USER_ROLES));
+
+/**
+ * Wrap a data contract in the backend's success envelope
+ */
+export const envelopeContract = <T>(
+  data: Contract<T>
+): Contract<ApiEnvelope<T>> =>
+  object<ApiEnvelope<T>>({
+    success: boolean(),
+    message: string(),
+    data,
+  });
+
+export const userContract = object<User>({
+  id: number(),
+  name: string(),
+  last_name: string(),
+  email: string(),
+  role,
+  full_name: optional(string()),
+  created_at: string(),
+  updated_at: string(),
+  deleted_at: optional(nullable(string())),
+});
+
+export const authUserContract = object<AuthUser>({
+  id: number(),
+  name: string(),
+  last_name: string(),
+  email: string(),
+  role,
+  full_name: optional(string()),
+});
+
+export const loginResponseContract = object<LoginResponse>({
+  user: authUserContract,
+  token: string(),
+  expires_at: nullable(string()),
+});
+
+const paginationMetaContract = object<PaginationMeta>({
+  current_page: number(),
+  last_page: number(),
+  per_page: number(),
+  total: number(),
+  from: nullable(number()),
+  to: nullable(number()),
+});
+
+const paginationLinksContract = object<PaginationLinks>({
+  first: nullable(string()),
+  last: nullable(string()),
+  prev: nullable(string()),
+  next: nullable(string()),
+});
+
+export const userListResponseContract = object<UserListResponse>({
+  success: boolean(),
+  message: string(),
+  data: array(userContract),
+  meta: paginationMetaContract,
+  links: paginationLinksContract,
+});
+
+const batchUserResultContract = object<BatchUserResult>({
+  id: number(),
+  email: nullable(string()),
+  success: boolean(),
+  message: string(),
+});
+
+export const batchUserResponseContract = object<BatchUserResponse>({
+  results: array(batchUserResultContract),
+  summary: object<BatchUserResponse["summary"]>({
+    total: number(),
+    succeeded: number(),
+    failed: number(),
+  }),
+});
+
+export const deletedUserContract = object<DeletedUserResponse>({
+  id: number(),
+  email: string(),
+  deleted_at: string(),
+});
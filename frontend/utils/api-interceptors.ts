@@ -0,0 +1,112 @@
+/**
+ * Shared interceptor registry for API requests
+ * Lets plugins hook into every request made through useApi or the $api fetch instance
+ */
+
+export type ApiHttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Mutable description of an outgoing request passed through request interceptors */
+export interface ApiRequestContext {
+  endpoint: string; // Path relative to apiBase
+  method: ApiHttpMethod;
+  headers: Record<string, string>;
+  body?: unknown;
+  attempt: number; // 1 for the first attempt, incremented on each retry
+  meta: Record<string, unknown>; // Free-form data shared between interceptors
+}
+
+export type RequestInterceptor = (
+  context: ApiRequestContext
+) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+
+export type ResponseInterceptor = (
+  response: unknown,
+  context: ApiRequestContext
+) => unknown | Promise<unknown>;
+
+/** Error interceptors may return a replacement error; returning nothing keeps the current one */
+export type ErrorInterceptor = (
+  error: unknown,
+  context: ApiRequestContext
+) => unknown | Promise<unknown>;
+
+export interface InterceptorManager<H> {
+  use(handler: H): () => void;
+  clear(): void;
+  readonly handlers: readonly H[];
+}
+
+/**
+ * Create an ordered list of interceptors
+ * `use` returns a function that removes the registered interceptor again
+ */
+const createInterceptorManager = <H>(): InterceptorManager<H> => {
+  let handlers: H[] = [];
+
+  return {
+    use(handler: H) {
+      handlers = [...handlers, handler];
+      return () => {
+        handlers = handlers.filter((registered) => registered !== handler);
+      };
+    },
+    clear() {
+      handlers = [];
+    },
+    get handlers() {
+      return handlers;
+    },
+  };
+};
+
+/**
+ * Application-wide interceptor registry, shared by every useApi() instance
+ */
+export const apiInterceptors = {
+  request: createInterceptorManager<RequestInterceptor>(),
+  response: createInterceptorManager<ResponseInterceptor>(),
+  error: createInterceptorManager<ErrorInterceptor>(),
+};
+
+export type ApiInterceptors = typeof apiInterceptors;
+
+/**
+ * Run request interceptors in registration order
+ */
+export const runRequestInterceptors = async (
+  context: ApiRequestContext
+): Promise<ApiRequestContext> => {
+  let current = context;
+  for (const interceptor of apiInterceptors.request.handlers) {
+    current = (await interceptor(current)) ?? current;
+  }
+  return current;
+};
+
+/**
+ * Run response interceptors in registration order, each receiving the previous result
+ */
+export const runResponseInterceptors = async (
+  response: unknown,
+  context: ApiRequestContext
+): Promise<unknown> => {
+  let current = response;
+  for (const interceptor of apiInterceptors.response.handlers) {
+    current = await interceptor(current, context);
+  }
+  return current;
+};
+
+/**
+ * Run error interceptors in registration order and return the resulting error
+ */
+export const runErrorInterceptors = async (
+  error: unknown,
+  context: ApiRequestContext
+): Promise<unknown> => {
+  let current = error;
+  for (const interceptor of apiInterceptors.error.handlers) {
+    current = (await interceptor(current, context)) ?? current;
+  }
+  return current;
+};
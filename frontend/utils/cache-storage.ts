@@ -0,0 +1,280 @@
+/**
+ * Storage backends for the API cache
+ * The in-memory map stays the source of truth; backends persist entries
+ * write-through so they survive reloads, and are read once on startup
+ */
+
+/** Bump when the shape of persisted entries changes; older entries are discarded on load */
+export const CACHE_SCHEMA_VERSION = 1;
+
+export type CacheStorageType = "memory" | "session" | "indexeddb";
+
+/** Serializable cache entry as persisted by a backend */
+export interface PersistedCacheEntry {
+  data: unknown;
+  timestamp: number;
+  ttl: number;
+  staleTtl: number;
+  tags: string[];
+  lastAccessed: number;
+}
+
+interface PersistedRecord {
+  version: number;
+  entry: PersistedCacheEntry;
+}
+
+export interface CacheStorageBackend {
+  readonly type: CacheStorageType;
+  load(): Promise<Map<string, PersistedCacheEntry>>;
+  save(key: string, entry: PersistedCacheEntry): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheStorageOptions {
+  namespace?: string; // Prefix (sessionStorage) or database name (IndexedDB)
+  maxEntryBytes?: number; // Entries larger than this are kept in memory only
+  maxBytes?: number; // Total budget for sessionStorage, oldest entries are evicted first
+}
+
+const DEFAULT_NAMESPACE = "api-cache";
+const DEFAULT_MAX_ENTRY_BYTES = 256 * 1024; // 256 KB
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024; // 2 MB, well below the usual 5 MB quota
+
+/**
+ * Serialize an entry with the current schema version
+ * @returns The JSON string, or null when the entry exceeds the size limit
+ */
+const serialize = (
+  entry: PersistedCacheEntry,
+  maxEntryBytes: number
+): string | null => {
+  const record: PersistedRecord = { version: CACHE_SCHEMA_VERSION, entry };
+  const json = JSON.stringify(record);
+  return json.length * 2 <= maxEntryBytes ? json : null; // UTF-16 size
+};
+
+/**
+ * Parse a persisted record, ignoring corrupt data and other schema versions
+ */
+const deserialize = (json: string | null): PersistedCacheEntry | null => {
+  if (!json) return null;
+
+  try {
+    const record = JSON.parse(json) as PersistedRecord;
+    return record?.version === CACHE_SCHEMA_VERSION ? record.entry : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Memory-only backend: nothing is persisted
+ */
+export const createMemoryStorage = (): CacheStorageBackend => ({
+  type: "memory",
+  load: async () => new Map(),
+  save: async () => {},
+  remove: async () => {},
+  clear: async () => {},
+});
+
+/**
+ * sessionStorage backend, scoped to the current tab
+ */
+export const createSessionStorage = (
+  options: CacheStorageOptions = {}
+): CacheStorageBackend => {
+  const {
+    namespace = DEFAULT_NAMESPACE,
+    maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES,
+    maxBytes = DEFAULT_MAX_BYTES,
+  } = options;
+  const prefix = `${namespace}:`;
+
+  const ownKeys = (): string[] => {
+    const keys: string[] = [];
+    for (let index = 0; index < window.sessionStorage.length; index++) {
+      const key = window.sessionStorage.key(index);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  };
+
+  const usedBytes = (): number =>
+    ownKeys().reduce(
+      (total, key) =>
+        total + (window.sessionStorage.getItem(key)?.length ?? 0) * 2,
+      0
+    );
+
+  /**
+   * Evict persisted entries, least recently accessed first, until `bytes` fit
+   */
+  const makeRoom = (bytes: number): void => {
+    const byAge = ownKeys()
+      .map((key) => ({
+        key,
+        lastAccessed:
+          deserialize(window.sessionStorage.getItem(key))?.lastAccessed ?? 0,
+      }))
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    let used = usedBytes();
+    for (const { key } of byAge) {
+      if (used + bytes <= maxBytes) break;
+      used -= (window.sessionStorage.getItem(key)?.length ?? 0) * 2;
+      window.sessionStorage.removeItem(key);
+    }
+  };
+
+  return {
+    type: "session",
+
+    async load() {
+      const entries = new Map<string, PersistedCacheEntry>();
+
+      for (const storageKey of ownKeys()) {
+        const entry = deserialize(window.sessionStorage.getItem(storageKey));
+        if (entry) {
+          entries.set(storageKey.slice(prefix.length), entry);
+        } else {
+          window.sessionStorage.removeItem(storageKey);
+        }
+      }
+
+      return entries;
+    },
+
+    async save(key, entry) {
+      const json = serialize(entry, maxEntryBytes);
+      if (json === null) return;
+
+      const storageKey = `${prefix}${key}`;
+      window.sessionStorage.removeItem(storageKey);
+      makeRoom(json.length * 2);
+
+      try {
+        window.sessionStorage.setItem(storageKey, json);
+      } catch (error) {
+        // Quota exceeded: the entry stays available from memory
+        console.warn(`Failed to persist cache entry: ${key}`, error);
+      }
+    },
+
+    async remove(key) {
+      window.sessionStorage.removeItem(`${prefix}${key}`);
+    },
+
+    async clear() {
+      ownKeys().forEach((key) => window.sessionStorage.removeItem(key));
+    },
+  };
+};
+
+/**
+ * IndexedDB backend, shared by every tab of the origin
+ */
+export const createIndexedDbStorage = (
+  options: CacheStorageOptions = {}
+): CacheStorageBackend => {
+  const { namespace = DEFAULT_NAMESPACE, maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES } =
+    options;
+  const STORE_NAME = "entries";
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(namespace, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  /**
+   * Run a single request against the entries store
+   */
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+
+    return new Promise((resolve, reject) => {
+      const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    type: "indexeddb",
+
+    async load() {
+      const [keys, records] = await Promise.all([
+        run("readonly", (store) => store.getAllKeys()),
+        run("readonly", (store) => store.getAll()),
+      ]);
+      const entries = new Map<string, PersistedCacheEntry>();
+      const outdated: string[] = [];
+
+      keys.forEach((key, index) => {
+        const entry = deserialize(records[index] as string);
+        if (entry) {
+          entries.set(String(key), entry);
+        } else {
+          outdated.push(String(key));
+        }
+      });
+
+      await Promise.all(
+        outdated.map((key) => run("readwrite", (store) => store.delete(key)))
+      );
+
+      return entries;
+    },
+
+    async save(key, entry) {
+      const json = serialize(entry, maxEntryBytes);
+      if (json === null) return;
+
+      await run("readwrite", (store) => store.put(json, key));
+    },
+
+    async remove(key) {
+      await run("readwrite", (store) => store.delete(key));
+    },
+
+    async clear() {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+};
+
+/**
+ * Create the backend for a storage type, falling back to memory when unavailable
+ */
+export const createCacheStorage = (
+  type: CacheStorageType,
+  options: CacheStorageOptions = {}
+): CacheStorageBackend => {
+  if (typeof window === "undefined") {
+    return createMemoryStorage();
+  }
+
+  if (type === "session" && "sessionStorage" in window) {
+    return createSessionStorage(options);
+  }
+
+  if (type === "indexeddb" && "indexedDB" in window) {
+    return createIndexedDbStorage(options);
+  }
+
+  return createMemoryStorage();
+};
@@ -0,0 +1,159 @@
+/**
+ * Runtime contracts for API payloads
+ * Small validator combinators that check a response against the shape the UI expects
+ * and report every mismatch with the path where it occurred
+ */
+
+export interface ContractIssue {
+  path: string; // e.g. "data[0].role"
+  expected: string;
+  received: string;
+}
+
+export interface Contract<T> {
+  readonly description: string;
+  check(value: unknown, path: string, issues: ContractIssue[]): void;
+  readonly __type?: T; // Type marker only, never set
+}
+
+export type ContractType<C> = C extends Contract<infer T> ? T : never;
+
+/**
+ * Describe a received value for issue messages
+ */
+const describeValue = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string ${JSON.stringify(value)}`;
+  return typeof value;
+};
+
+const primitive = <T>(
+  type: "string" | "number" | "boolean"
+): Contract<T> => ({
+  description: type,
+  check(value, path, issues) {
+    if (typeof value !== type || (type === "number" && Number.isNaN(value))) {
+      issues.push({ path, expected: type, received: describeValue(value) });
+    }
+  },
+});
+
+export const string = (): Contract<string> => primitive("string");
+export const number = (): Contract<number> => primitive("number");
+export const boolean = (): Contract<boolean> => primitive("boolean");
+
+/**
+ * One of a fixed set of values, e.g. a role
+ */
+export const literal = <const T extends readonly (string | number)[]>(
+  ...values: T
+): Contract<T[number]> => {
+  const description = values
+    .map((value) => JSON.stringify(value))
+    .join(" | ");
+
+  return {
+    description,
+    check(value, path, issues) {
+      if (!values.includes(value as T[number])) {
+        issues.push({
+          path,
+          expected: description,
+          received: describeValue(value),
+        });
+      }
+    },
+  };
+};
+
+export const nullable = <T>(contract: Contract<T>): Contract<T | null> => ({
+  description: `${contract.description} | null`,
+  check(value, path, issues) {
+    if (value !== null) contract.check(value, path, issues);
+  },
+});
+
+/**
+ * Property that may be missing from the payload
+ */
+export const optional = <T>(
+  contract: Contract<T>
+): Contract<T | undefined> => ({
+  description: `${contract.description} | undefined`,
+  check(value, path, issues) {
+    if (value !== undefined) contract.check(value, path, issues);
+  },
+});
+
+export const array = <T>(contract: Contract<T>): Contract<T[]> => ({
+  description: `${contract.description}[]`,
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: describeValue(value) });
+      return;
+    }
+    value.forEach((item, index) =>
+      contract.check(item, `${path}[${index}]`, issues)
+    );
+  },
+});
+
+/**
+ * Object with exactly the given properties
+ * Unknown properties are reported too, so added or renamed backend fields surface early.
+ * The shape must list every property of T, keeping contracts in step with the types.
+ */
+export const object = <T>(shape: {
+  [K in keyof T]-?: Contract<T[K]>;
+}): Contract<T> => {
+  const entries = Object.entries(shape) as [string, Contract<unknown>][];
+
+  return {
+    description: "object",
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: "object", received: describeValue(value) });
+        return;
+      }
+
+      const record = value as Record<string, unknown>;
+      for (const [key, contract] of entries) {
+        contract.check(record[key], path ? `${path}.${key}` : key, issues);
+      }
+
+      for (const key of Object.keys(record)) {
+        if (!(key in shape)) {
+          issues.push({
+            path: path ? `${path}.${key}` : key,
+            expected: "no such property",
+            received: describeValue(record[key]),
+          });
+        }
+      }
+    },
+  };
+};
+
+/**
+ * Check a value against a contract
+ * @returns Every mismatch found, empty when the value conforms
+ */
+export const validateContract = <T>(
+  contract: Contract<T>,
+  value: unknown
+): ContractIssue[] => {
+  const issues: ContractIssue[] = [];
+  contract.check(value, "", issues);
+  return issues;
+};
+
+/**
+ * Format an issue as `path: expected X, received Y`
+ */
+export const formatContractIssue = ({
+  path,
+  expected,
+  received,
+}: ContractIssue): string =>
+  `${path || "(root)"}: expected ${expected}, received ${received}`;
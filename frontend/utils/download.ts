@@ -0,0 +1,15 @@
+// Revoking right after the click can cancel the download or save an empty
+// file in some browsers, so the URL outlives the click by a while
+const REVOKE_DELAY_MS = 10_000;
+
+/**
+ * Save a generated file through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,110 @@
+/**
+ * Inactivity tracking shared across tabs
+ * Each tab broadcasts its activity, so activity in one tab keeps every tab
+ * alive, and announces logouts so one tab signing out signs out all of them
+ */
+
+/** Messages exchanged between tabs */
+export type SessionMessage =
+  | { type: "activity"; at: number }
+  | { type: "logout" };
+
+/** The part of BroadcastChannel the tracker relies on */
+export interface SessionChannel {
+  postMessage(message: SessionMessage): void;
+  onmessage: ((event: MessageEvent<SessionMessage>) => void) | null;
+  close(): void;
+}
+
+export interface IdleTrackerOptions {
+  timeout: number; // Milliseconds without activity before timing out; 0 never times out
+  channel: SessionChannel | null; // Null when BroadcastChannel is unavailable
+  onTick(remaining: number): void; // Every second, with the time left
+  onTimeout(): void;
+  onRemoteLogout(): void;
+}
+
+export interface IdleTracker {
+  recordActivity(): void;
+  announceLogout(): void;
+  reset(): void;
+  stop(): void;
+}
+
+export const SESSION_CHANNEL_NAME = "user-session";
+
+// Activity is recorded, and broadcast, at most this often
+const ACTIVITY_THROTTLE_MS = 1000;
+
+const TICK_MS = 1000;
+
+/**
+ * Start tracking inactivity
+ * Time left is derived from timestamps, so throttled timers in background
+ * tabs only delay the check, never extend the timeout.
+ */
+export const createIdleTracker = ({
+  timeout,
+  channel,
+  onTick,
+  onTimeout,
+  onRemoteLogout,
+}: IdleTrackerOptions): IdleTracker => {
+  let lastActivity = Date.now();
+  let timedOut = false;
+
+  const check = () => {
+    if (timedOut) return;
+
+    const remaining = Math.max(0, lastActivity + timeout - Date.now());
+    onTick(remaining);
+
+    if (remaining === 0) {
+      timedOut = true;
+      onTimeout();
+    }
+  };
+
+  const touch = (at: number) => {
+    if (at <= lastActivity) return;
+    lastActivity = at;
+    timedOut = false;
+    check();
+  };
+
+  const timer = timeout > 0 ? setInterval(check, TICK_MS) : undefined;
+
+  if (channel) {
+    channel.onmessage = ({ data }) => {
+      if (data.type === "activity") {
+        touch(data.at);
+      } else if (data.type === "logout") {
+        onRemoteLogout();
+      }
+    };
+  }
+
+  return {
+    recordActivity() {
+      const at = Date.now();
+      if (timeout <= 0 || at - lastActivity < ACTIVITY_THROTTLE_MS) return;
+
+      touch(at);
+      channel?.postMessage({ type: "activity", at });
+    },
+    announceLogout() {
+      channel?.postMessage({ type: "logout" });
+    },
+    reset() {
+      lastActivity = Date.now();
+      timedOut = false;
+    },
+    stop() {
+      clearInterval(timer);
+      if (channel) {
+        channel.onmessage = null;
+        channel.close();
+      }
+    },
+  };
+};
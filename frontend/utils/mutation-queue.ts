@@ -0,0 +1,266 @@
+/**
+ * Offline mutation queue for user management
+ * Mutations made while offline are kept in order, persisted in IndexedDB and
+ * replayed once connectivity returns
+ */
+
+import type { CreateUserData, UpdateUserData, User } from "../types/index";
+
+export type QueuedMutationType = "create" | "update" | "delete";
+
+/** Server rejection recorded when a queued mutation could not be replayed */
+export interface MutationConflict {
+  status: number;
+  message: string;
+  errors?: Record<string, string[]>;
+}
+
+export interface QueuedMutation {
+  id: number; // Increasing, defines replay order
+  type: QueuedMutationType;
+  userId: number; // Negative placeholder id for users created offline
+  payload?: CreateUserData | UpdateUserData;
+  queuedAt: string;
+  status: "pending" | "conflict";
+  conflict?: MutationConflict;
+  passwordRemoved?: boolean; // A password was stripped before persisting
+}
+
+export interface MutationQueueStorage {
+  load(): Promise<QueuedMutation[]>;
+  put(mutation: QueuedMutation): Promise<void>;
+  remove(id: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Never written to disk; see restoreQueuedMutations
+const SENSITIVE_FIELDS = ["password", "password_confirmation"];
+
+const DATABASE_NAME = "users-offline-queue";
+const STORE_NAME = "mutations";
+
+/**
+ * Copy of a mutation that is safe to persist
+ */
+const withoutSecrets = (mutation: QueuedMutation): QueuedMutation => {
+  if (!mutation.payload) return mutation;
+
+  const payload = { ...mutation.payload } as Record<string, unknown>;
+  const removed = SENSITIVE_FIELDS.filter((field) => payload[field]);
+  SENSITIVE_FIELDS.forEach((field) => delete payload[field]);
+  return {
+    ...mutation,
+    payload: payload as unknown as QueuedMutation["payload"],
+    ...(removed.length > 0 && { passwordRemoved: true }),
+  };
+};
+
+/**
+ * In-memory storage, used when IndexedDB is unavailable
+ */
+export const createMemoryQueueStorage = (): MutationQueueStorage => {
+  const mutations = new Map<number, QueuedMutation>();
+
+  return {
+    load: async () =>
+      Array.from(mutations.values()).sort((a, b) => a.id - b.id),
+    put: async (mutation) => {
+      mutations.set(mutation.id, withoutSecrets(mutation));
+    },
+    remove: async (id) => {
+      mutations.delete(id);
+    },
+    clear: async () => {
+      mutations.clear();
+    },
+  };
+};
+
+/**
+ * IndexedDB storage keyed by mutation id
+ */
+export const createIndexedDbQueueStorage = (): MutationQueueStorage => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  /**
+   * Run a single request against the mutations store
+   */
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+
+    return new Promise((resolve, reject) => {
+      const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async load() {
+      // Keys are numeric, so getAll already returns mutations in replay order
+      return (await run("readonly", (store) =>
+        store.getAll()
+      )) as QueuedMutation[];
+    },
+    async put(mutation) {
+      await run("readwrite", (store) => store.put(withoutSecrets(mutation)));
+    },
+    async remove(id) {
+      await run("readwrite", (store) => store.delete(id));
+    },
+    async clear() {
+      await run("readwrite", (store) => store.clear());
+    },
+  };
+};
+
+/**
+ * Whether a mutation has lost its password, e.g. after a reload
+ */
+export const needsPassword = (mutation: QueuedMutation): boolean =>
+  (mutation.type === "create" || mutation.passwordRemoved === true) &&
+  !(mutation.payload as Partial<CreateUserData> | undefined)?.password;
+
+/**
+ * Prepare persisted mutations for replay
+ * Creates would fail validation without their password and updates would
+ * silently keep the old one, so both wait as conflicts until the password
+ * is entered again.
+ */
+export const restoreQueuedMutations = (
+  mutations: QueuedMutation[]
+): QueuedMutation[] =>
+  mutations.map((mutation) =>
+    needsPassword(mutation)
+      ? {
+          ...mutation,
+          status: "conflict",
+          conflict: {
+            status: 0,
+            message: "The password was not saved when the page was reloaded",
+            errors: {
+              password: [
+                `Enter the password again to ${mutation.type} this user`,
+              ],
+            },
+          },
+        }
+      : mutation
+  );
+
+/**
+ * Pick IndexedDB when available, memory otherwise
+ */
+export const createMutationQueueStorage = (): MutationQueueStorage =>
+  typeof window !== "undefined" && "indexedDB" in window
+    ? createIndexedDbQueueStorage()
+    : createMemoryQueueStorage();
+
+/**
+ * Add a mutation to the queue, folding it into earlier mutations of the same user
+ * Editing or deleting a user created offline rewrites or drops its create;
+ * repeated edits collapse into the latest one.
+ * @returns The new queue and the mutations that were removed from it
+ */
+export const enqueueMutation = (
+  queue: QueuedMutation[],
+  mutation: QueuedMutation
+): { queue: QueuedMutation[]; removed: QueuedMutation[] } => {
+  const earlier = queue.filter((queued) => queued.userId === mutation.userId);
+  const create = earlier.find((queued) => queued.type === "create");
+
+  if (create && mutation.type === "update") {
+    const merged: QueuedMutation = {
+      ...create,
+      payload: { ...create.payload, ...mutation.payload } as CreateUserData,
+      status: "pending",
+      conflict: undefined,
+    };
+    return {
+      queue: queue.map((queued) => (queued === create ? merged : queued)),
+      removed: [],
+    };
+  }
+
+  if (create && mutation.type === "delete") {
+    return {
+      queue: queue.filter((queued) => !earlier.includes(queued)),
+      removed: earlier,
+    };
+  }
+
+  // A later update or delete supersedes queued updates of the same user
+  const superseded = earlier.filter((queued) => queued.type === "update");
+  return {
+    queue: [
+      ...queue.filter((queued) => !superseded.includes(queued)),
+      mutation,
+    ],
+    removed: superseded,
+  };
+};
+
+/**
+ * Overlay queued mutations on a page of users from the server
+ */
+export const applyQueuedMutations = (
+  users: User[],
+  queue: QueuedMutation[]
+): User[] => {
+  let result = [...users];
+
+  for (const mutation of queue) {
+    const index = result.findIndex((user) => user.id === mutation.userId);
+
+    if (mutation.type === "create" && index === -1) {
+      result = [toPlaceholderUser(mutation), ...result];
+    } else if (mutation.type === "update" && index !== -1) {
+      const { name, last_name, email, role } =
+        mutation.payload as UpdateUserData;
+      result[index] = {
+        ...(result[index] as User),
+        name,
+        last_name,
+        email,
+        role,
+      };
+    } else if (mutation.type === "delete" && index !== -1) {
+      result.splice(index, 1);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Row shown for a user created offline until the server assigns a real id
+ */
+export const toPlaceholderUser = (mutation: QueuedMutation): User => {
+  const { name, last_name, email, role } = mutation.payload as CreateUserData;
+
+  return {
+    id: mutation.userId,
+    name,
+    last_name,
+    email,
+    role,
+    created_at: mutation.queuedAt,
+    updated_at: mutation.queuedAt,
+  };
+};
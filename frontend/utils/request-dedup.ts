@@ -0,0 +1,118 @@
+/**
+ * In-flight request deduplication
+ * Coalesces concurrent identical requests onto one shared promise
+ */
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export interface RequestDeduper {
+  dedupe<T>(
+    key: string,
+    requestFn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T>;
+  has(key: string): boolean;
+  readonly size: number;
+}
+
+/**
+ * Key identifying a request; custom headers can change the response, so
+ * requests differing only in headers are never coalesced
+ */
+export const requestKey = (
+  method: string,
+  url: string,
+  headers: Record<string, string> = {}
+): string => {
+  const headerKey = JSON.stringify(
+    Object.entries(headers).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return `${method.toUpperCase()} ${url} ${headerKey}`;
+};
+
+/**
+ * Create a deduper with its own in-flight registry
+ *
+ * The shared request runs with its own signal. A subscriber aborting its
+ * signal only detaches that subscriber; the underlying request is aborted
+ * once every subscriber has gone.
+ */
+export const createRequestDeduper = (): RequestDeduper => {
+  const inflight = new Map<string, InflightRequest>();
+
+  const dedupe = <T>(
+    key: string,
+    requestFn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let entry = inflight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        controller,
+        subscribers: 0,
+        promise: requestFn(controller.signal).finally(() => {
+          if (inflight.get(key) === created) {
+            inflight.delete(key);
+          }
+        }),
+      };
+      inflight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+      let released = false;
+
+      const release = () => {
+        if (released) return;
+        released = true;
+        shared.subscribers--;
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      const onAbort = () => {
+        release();
+        if (shared.subscribers === 0) {
+          shared.controller.abort(signal?.reason);
+          if (inflight.get(key) === shared) {
+            inflight.delete(key);
+          }
+        }
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      (shared.promise as Promise<T>).then(
+        (value) => {
+          release();
+          resolve(value);
+        },
+        (error) => {
+          release();
+          reject(error);
+        }
+      );
+    });
+  };
+
+  return {
+    dedupe,
+    has: (key: string) => inflight.has(key),
+    get size() {
+      return inflight.size;
+    },
+  };
+};
@@ -174,6 +174,39 @@ export const generateSecureToken = (length: number = 32): string => {
   );
 };
 
+/**
+ * Generate a random password that passes validatePasswordStrength
+ * Tokens are hex, so an uppercase letter and a symbol are mixed in; the rare
+ * token without a letter or a digit is drawn again.
+ */
+export const generateSecurePassword = (length: number = 16): string => {
+  const uppercase = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+  const symbols = "!@#$%^&*-_=+?";
+
+  for (;;) {
+    const [upper = 0, symbol = 0, upperAt = 0, symbolAt = 0] =
+      crypto.getRandomValues(new Uint8Array(4));
+    const chars = generateSecureToken(length)
+      .slice(0, length - 2)
+      .split("");
+    chars.splice(
+      upperAt % chars.length,
+      0,
+      uppercase[upper % uppercase.length]!
+    );
+    chars.splice(
+      symbolAt % chars.length,
+      0,
+      symbols[symbol % symbols.length]!
+    );
+
+    const password = chars.join("");
+    if (validatePasswordStrength(password).isValid) {
+      return password;
+    }
+  }
+};
+
 /**
  * Rate limiting helper for client-side
  */
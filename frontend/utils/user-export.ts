@@ -0,0 +1,98 @@
+/**
+ * Export of user lists to CSV and XLSX
+ * Columns are TableColumn definitions, so the export offers the same fields
+ * and formatting as tables do
+ */
+
+import type { TableColumn, User } from "../types/index";
+import { createXlsx, type XlsxCell } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const USER_EXPORT_COLUMNS: TableColumn<User>[] = [
+  { key: "id", label: "ID" },
+  { key: "name", label: "First Name" },
+  { key: "last_name", label: "Last Name" },
+  { key: "email", label: "Email" },
+  { key: "role", label: "Role" },
+  {
+    key: "created_at",
+    label: "Registration Date",
+    formatter: (value) => new Date(String(value)).toISOString(),
+  },
+  {
+    key: "updated_at",
+    label: "Last Updated",
+    formatter: (value) => new Date(String(value)).toISOString(),
+  },
+];
+
+/**
+ * Cell value of a user for a column, formatted when the column asks for it
+ */
+export const exportCell = (user: User, column: TableColumn<User>): XlsxCell => {
+  const value = (user as unknown as Record<string, unknown>)[
+    String(column.key)
+  ];
+  if (column.formatter) return column.formatter(value, user);
+  if (typeof value === "number") return value;
+  return value === null || value === undefined ? null : String(value);
+};
+
+/**
+ * Neutralize values a spreadsheet would run as a formula (CSV injection)
+ */
+const guardFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * One CSV line per row, quoted where needed, ending in CRLF (RFC 4180)
+ */
+export const toCsvLines = (rows: XlsxCell[][]): string =>
+  rows
+    .map((cells) =>
+      cells
+        .map((cell) => {
+          if (cell === null) return "";
+          const text =
+            typeof cell === "number" ? String(cell) : guardFormula(cell);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",")
+    )
+    .map((line) => `${line}\r\n`)
+    .join("");
+
+/**
+ * Incrementally built export file
+ * CSV chunks are serialized as they arrive; XLSX needs every row before the
+ * workbook can be packed.
+ */
+export const createExportWriter = (
+  format: ExportFormat,
+  columns: TableColumn<User>[]
+) => {
+  const header = columns.map((column) => column.label);
+  // Excel only detects UTF-8 in CSV files that start with a byte order mark
+  const csvParts: string[] = ["\uFEFF", toCsvLines([header])];
+  const xlsxRows: XlsxCell[][] = [header];
+
+  return {
+    write(users: User[]) {
+      const rows = users.map((user) =>
+        columns.map((column) => exportCell(user, column))
+      );
+      if (format === "csv") {
+        csvParts.push(toCsvLines(rows));
+      } else {
+        xlsxRows.push(...rows);
+      }
+    },
+
+    finish(): Blob {
+      return format === "csv"
+        ? new Blob(csvParts, { type: "text/csv;charset=utf-8" })
+        : createXlsx(xlsxRows, "Users");
+    },
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * Import of users from CSV files
+ * Parses the file, maps its columns to CreateUserData fields and validates
+ * every row with the rules of the create form before anything is sent
+ */
+
+import { CREATE_USER_RULES } from "../composables/useCreateUserForm";
+import { useFormValidation } from "../composables/useFormValidation";
+import type { CreateUserData, UserRole } from "../types/index";
+import { toCsvLines } from "./user-export";
+
+export type ImportField = keyof CreateUserData;
+
+/** Column of the file feeding each field, by index; null when unmapped */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportRow {
+  line: number; // Record number in the file, the header being 1
+  data: CreateUserData;
+  errors: Partial<Record<ImportField, string[]>>;
+}
+
+export interface ImportFailure {
+  line: number;
+  email: string;
+  reason: string;
+}
+
+export const IMPORT_FIELDS: {
+  key: ImportField;
+  label: string;
+  aliases: string[]; // Header names recognized when guessing the mapping
+}[] = [
+  {
+    key: "name",
+    label: "First Name",
+    aliases: ["first name", "firstname", "given name"],
+  },
+  {
+    key: "last_name",
+    label: "Last Name",
+    aliases: ["lastname", "surname", "family name"],
+  },
+  {
+    key: "email",
+    label: "Email",
+    aliases: ["email address", "e-mail", "mail"],
+  },
+  { key: "password", label: "Password", aliases: [] },
+  { key: "role", label: "Role", aliases: [] },
+];
+
+/**
+ * Split CSV text into records (RFC 4180); blank lines are skipped
+ */
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== "")) records.push(record);
+    record = [];
+    field = "";
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+};
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+/**
+ * Mapping from the header row, matching field keys, labels and aliases
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ key, label, aliases }) => {
+      const names = [key, label, ...aliases].map(normalizeHeader);
+      const index = normalized.findIndex((header) => names.includes(header));
+      return [key, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+};
+
+/**
+ * Map and validate the data records (the header excluded)
+ * Emails repeated within the file are errors too, since only one could be
+ * created.
+ */
+export const buildImportRows = (
+  records: string[][],
+  mapping: ColumnMapping
+): ImportRow[] => {
+  const { validateField } = useFormValidation();
+  const seenEmails = new Set<string>();
+
+  return records.map((record, index) => {
+    const value = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (record[column] ?? "").trim();
+    };
+
+    const data: CreateUserData = {
+      name: value("name"),
+      last_name: value("last_name"),
+      email: value("email").toLowerCase(),
+      password: value("password"),
+      role: value("role").toLowerCase() as UserRole,
+    };
+
+    const errors: ImportRow["errors"] = {};
+    for (const { key, label } of IMPORT_FIELDS) {
+      const fieldErrors = validateField(
+        label,
+        data[key],
+        CREATE_USER_RULES[key]!
+      );
+      if (fieldErrors.length > 0) errors[key] = fieldErrors;
+    }
+
+    if (data.email && seenEmails.has(data.email)) {
+      errors.email = [
+        ...(errors.email ?? []),
+        "Email appears earlier in the file",
+      ];
+    }
+    seenEmails.add(data.email);
+
+    return { line: index + 2, data, errors };
+  });
+};
+
+/**
+ * Whether a row can be submitted
+ */
+export const isValidImportRow = (row: ImportRow): boolean =>
+  Object.keys(row.errors).length === 0;
+
+/**
+ * CSV report of the rows that were not imported
+ */
+export const createFailureReport = (failures: ImportFailure[]): Blob =>
+  new Blob(
+    [
+      "\uFEFF",
+      toCsvLines([
+        ["Line", "Email", "Reason"],
+        ...failures.map(({ line, email, reason }) => [line, email, reason]),
+      ]),
+    ],
+    { type: "text/csv;charset=utf-8" }
+  );
@@ -0,0 +1,57 @@
+/**
+ * Per-user UI preferences kept in localStorage
+ * Each signed-in user gets their own entry, so people sharing a browser do not
+ * inherit each other's settings
+ */
+
+const STORAGE_PREFIX = "user-preferences";
+
+export interface UserPreferences {
+  usersPerPage?: number;
+}
+
+const storageKey = (userId: number | null): string =>
+  `${STORAGE_PREFIX}:${userId ?? "guest"}`;
+
+/**
+ * localStorage when available; private browsing or SSR yield null
+ */
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the preferences of a user, empty when none were saved or they are unreadable
+ */
+export const loadUserPreferences = (userId: number | null): UserPreferences => {
+  const raw = getStorage()?.getItem(storageKey(userId));
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Merge changes into the saved preferences of a user
+ */
+export const saveUserPreferences = (
+  userId: number | null,
+  changes: UserPreferences
+): void => {
+  const preferences = { ...loadUserPreferences(userId), ...changes };
+
+  try {
+    getStorage()?.setItem(storageKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    // Quota exceeded or storage disabled; the preference only lasts this visit
+    console.warn("Failed to save user preferences:", error);
+  }
+};